@@ -12,8 +12,10 @@ import {
   Clock,
   MoreVertical,
   CalendarDays,
-  Search
+  Search,
+  AlertTriangle
 } from 'lucide-react';
+import Agenda from '@/components/Agenda';
 
 interface Task {
   id: string;
@@ -45,6 +47,17 @@ interface Project {
   milestones: Milestone[];
 }
 
+interface DueItem {
+  type: 'milestone' | 'task';
+  projectId: string;
+  milestoneId: string;
+  taskId: string | null;
+  name: string;
+  dueDate: string;
+  priority: 'low' | 'medium' | 'high';
+  overdue: boolean;
+}
+
 export default function Dashboard() {
   const { status } = useSession();
   const [activeTab] = useState<'active'>('active');
@@ -54,6 +67,11 @@ export default function Dashboard() {
   const [error, setError] = useState<string | null>(null);
   const [showDropdown, setShowDropdown] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [dueItems, setDueItems] = useState<DueItem[]>([]);
+  const [sortBy, setSortBy] = useState<'updated' | 'due'>('updated');
+
+  // Overdue and soon-due items of a project, most urgent first
+  const getDueItems = (projectId: string) => dueItems.filter(item => item.projectId === projectId);
 
   // Filter projects based on search query
   const filteredProjects = projects.filter(project => 
@@ -62,11 +80,24 @@ export default function Dashboard() {
     project.category.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // Projects with the most urgent due item first; the rest keep their order
+  const sortedProjects = sortBy === 'due'
+    ? [...filteredProjects].sort((a, b) => {
+        const aIndex = dueItems.findIndex(item => item.projectId === a._id);
+        const bIndex = dueItems.findIndex(item => item.projectId === b._id);
+        if (aIndex === -1 || bIndex === -1) return (aIndex === -1 ? 1 : 0) - (bIndex === -1 ? 1 : 0);
+        const aOverdue = dueItems[aIndex].overdue ? 0 : 1;
+        const bOverdue = dueItems[bIndex].overdue ? 0 : 1;
+        return aOverdue - bOverdue || aIndex - bIndex;
+      })
+    : filteredProjects;
+
   // Fetch projects when component mounts
   useEffect(() => {
     console.log('Dashboard mounted, session status:', status);
     if (status === 'authenticated') {
       fetchProjects();
+      fetchDueItems();
     }
   }, [status, activeTab]);
 
@@ -91,6 +122,22 @@ export default function Dashboard() {
     }
   };
 
+  // Fetch overdue and soon-due milestones and tasks
+  const fetchDueItems = async () => {
+    try {
+      // Overdue follows the browser's day, not the server's
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await fetch(`/api/projects/due?days=7&timezone=${encodeURIComponent(timeZone)}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch due items');
+      }
+      const data = await response.json();
+      setDueItems([...data.overdue, ...data.dueSoon]);
+    } catch (err) {
+      console.error('Error fetching due items:', err);
+    }
+  };
+
   // Toggle project expansion
   const toggleProject = (projectId: string) => {
     if (expandedProject === projectId) {
@@ -223,8 +270,12 @@ export default function Dashboard() {
         </Link>
       </div>
 
+      {/* Today's Agenda */}
+      {status === 'authenticated' && <Agenda />}
+
       {/* Search Bar */}
-      <div className="relative">
+      <div className="flex gap-3">
+      <div className="relative flex-1">
         <input
           type="text"
           placeholder="Search projects..."
@@ -234,6 +285,16 @@ export default function Dashboard() {
         />
         <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
       </div>
+        <select
+          aria-label="Sort projects"
+          className="px-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'updated' | 'due')}
+        >
+          <option value="updated">Recently updated</option>
+          <option value="due">Due soonest</option>
+        </select>
+      </div>
       
       {/* Projects List */}
       {isLoading ? (
@@ -262,8 +323,17 @@ export default function Dashboard() {
         </div>
       ) : (
         <div className="space-y-4">
-          {filteredProjects.map(project => (
-            <div key={project._id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-100 dark:border-gray-700 overflow-hidden">
+          {sortedProjects.map(project => (
+            <div
+              key={project._id}
+              className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm border overflow-hidden ${
+                getDueItems(project._id).some(item => item.overdue)
+                  ? 'border-red-300 dark:border-red-700'
+                  : getDueItems(project._id).length > 0
+                    ? 'border-amber-300 dark:border-amber-700'
+                    : 'border-gray-100 dark:border-gray-700'
+              }`}
+            >
               {/* Project Header */}
               <div className="p-4 flex justify-between items-center">
                 <div className="flex items-center gap-3">
@@ -282,6 +352,18 @@ export default function Dashboard() {
                   </div>
                 </div>
                 <div className="flex items-center gap-4">
+                  {getDueItems(project._id).length > 0 && (
+                    <span className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${
+                      getDueItems(project._id).some(item => item.overdue)
+                        ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                        : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+                    }`}>
+                      <AlertTriangle className="w-3 h-3" />
+                      {getDueItems(project._id).filter(item => item.overdue).length > 0
+                        ? `${getDueItems(project._id).filter(item => item.overdue).length} overdue`
+                        : `${getDueItems(project._id).length} due soon`}
+                    </span>
+                  )}
                   <div className="text-sm text-gray-500 dark:text-gray-400">
                     Updated: {getTimeSince(project.updatedAt)}
                   </div>
@@ -357,6 +439,30 @@ export default function Dashboard() {
                     )}
                   </div>
                   
+                  {getDueItems(project._id).length > 0 && (
+                    <div className="mb-4 space-y-1">
+                      {getDueItems(project._id).map(item => (
+                        <div
+                          key={item.taskId || item.milestoneId}
+                          className={`flex items-center justify-between text-sm px-2 py-1 rounded ${
+                            item.overdue
+                              ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                              : 'bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300'
+                          }`}
+                        >
+                          <span>
+                            {item.name}
+                            {item.type === 'milestone' && <span className="ml-1 text-xs opacity-75">(milestone)</span>}
+                            {item.priority === 'high' && <span className="ml-2 text-xs font-semibold uppercase">High</span>}
+                          </span>
+                          <span>
+                            {item.overdue ? 'Overdue since' : 'Due'} {new Date(item.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  
                   {project.milestones.length > 0 ? (
                     <div className="space-y-2">
                       {project.milestones.map(milestone => (
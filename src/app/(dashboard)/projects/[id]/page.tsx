@@ -2,19 +2,51 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { 
   ArrowLeft, 
   MoreVertical, 
   Edit2, 
-  Calendar
+  Calendar,
+  Timer,
+  GripVertical,
+  Lock,
+  Link2,
+  ListChecks,
+  Plus,
+  X,
+  Repeat,
+  BookmarkPlus,
+  BookmarkCheck
 } from 'lucide-react';
 import WorkSession from '@/components/WorkSession';
+import SessionTimeline from '@/components/SessionTimeline';
+import ResumeBriefing from '@/components/ResumeBriefing';
+import NoteHistory from '@/components/NoteHistory';
+import ScheduleEditor from '@/components/ScheduleEditor';
+import { describeRecurrence, type Recurrence } from '@/lib/recurrence';
+import { formatDuration } from '@/lib/session-time';
 
 interface Task {
   _id: string;
   name: string;
   status: 'not_started' | 'in_progress' | 'completed';
   notes: string;
+  order: number;
+  estimateMinutes?: number | null;
+  dependsOn: string[];
+  checklist: {
+    _id: string;
+    text: string;
+    done: boolean;
+  }[];
+  dueDate?: string | null;
+  priority?: 'low' | 'medium' | 'high';
+  recurrence?: Recurrence | null;
+  completions: {
+    completedAt: string;
+    dueDate: string | null;
+  }[];
   lastSession?: {
     timestamp: string;
     note: string;
@@ -25,9 +57,21 @@ interface Milestone {
   _id: string;
   name: string;
   status: 'not_started' | 'in_progress' | 'completed';
+  order: number;
+  estimateMinutes?: number | null;
+  dueDate?: string | null;
+  priority?: 'low' | 'medium' | 'high';
   tasks: Task[];
 }
 
+interface TimeRollup {
+  total: number;
+  milestones: Record<string, {
+    total: number;
+    tasks: Record<string, number>;
+  }>;
+}
+
 interface Project {
   _id: string;
   name: string;
@@ -39,19 +83,48 @@ interface Project {
   updatedAt: string;
   deadline?: string;
   milestones: Milestone[];
+  settings: {
+    autoStart: boolean;
+    notifications: boolean;
+    progressMode?: 'count' | 'weighted' | 'milestone';
+    focusMode?: {
+      workMinutes: number | null;
+      breakMinutes: number | null;
+    };
+  };
 }
 
 export default function ProjectDetail({ params }: { params: { id: string } }) {
   const [project, setProject] = useState<Project | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const searchParams = useSearchParams();
   const [selectedTask, setSelectedTask] = useState<{ milestoneId: string; taskId: string } | null>(null);
+  const [sessionRefreshKey, setSessionRefreshKey] = useState(0);
+  const [timeRollup, setTimeRollup] = useState<TimeRollup | null>(null);
+  const [focusOverrides, setFocusOverrides] = useState({ workMinutes: '', breakMinutes: '' });
+  const [editingDependencies, setEditingDependencies] = useState<{ milestoneId: string; taskId: string; dependsOn: string[] } | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<string | null>(null);
+  const [newChecklistItems, setNewChecklistItems] = useState<Record<string, string>>({});
+  const [editingChecklistItem, setEditingChecklistItem] = useState<{ itemId: string; text: string } | null>(null);
+  const [dragged, setDragged] = useState<{ milestoneId: string; taskId?: string } | null>(null);
+  const [editingEstimate, setEditingEstimate] = useState<{ milestoneId: string; taskId?: string; hours: string } | null>(null);
+  const [templateSaved, setTemplateSaved] = useState(false);
 
   // Fetch project and active session on mount
   useEffect(() => {
     fetchProject();
   }, [params.id]);
 
+  // A task can be selected from the link, e.g. after starting a session from the agenda or a search result
+  useEffect(() => {
+    const milestoneId = searchParams.get('milestoneId');
+    const taskId = searchParams.get('taskId');
+    if (milestoneId && taskId) {
+      setSelectedTask({ milestoneId, taskId });
+    }
+  }, [searchParams]);
+
   // Fetch project data
   const fetchProject = async () => {
     try {
@@ -64,6 +137,11 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
       
       const data = await response.json();
       setProject(data);
+      setFocusOverrides({
+        workMinutes: data.settings?.focusMode?.workMinutes?.toString() || '',
+        breakMinutes: data.settings?.focusMode?.breakMinutes?.toString() || ''
+      });
+      fetchTimeRollup();
     } catch (err) {
       console.error('Error fetching project:', err);
       setError('Failed to load project');
@@ -72,17 +150,49 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
     }
   };
 
-  // Complete a task
-  const completeTask = async (milestoneId: string, taskId: string) => {
+  // Fetch tracked time per task and milestone
+  const fetchTimeRollup = async () => {
+    try {
+      const response = await fetch(`/api/projects/${params.id}/time`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch tracked time');
+      }
+      
+      setTimeRollup(await response.json());
+    } catch (err) {
+      console.error('Error fetching tracked time:', err);
+    }
+  };
+
+  // Incomplete prerequisites of a task
+  const getBlockers = (task: Task) => {
+    if (!project || !task.dependsOn?.length) return [];
+    return project.milestones
+      .flatMap(m => m.tasks)
+      .filter(t => task.dependsOn.includes(t._id) && t.status !== 'completed');
+  };
+
+  // Complete a task; blocked tasks are only completed after confirmation
+  const completeTask = async (milestoneId: string, taskId: string, force = false) => {
     try {
       const response = await fetch(`/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}/status`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: 'completed' }),
+        body: JSON.stringify({ status: 'completed', force }),
       });
 
+      if (response.status === 409) {
+        const data = await response.json();
+        const names = data.blockedBy.map((t: { name: string }) => t.name).join(', ');
+        if (confirm(`This task is waiting on: ${names}. Complete it anyway?`)) {
+          await completeTask(milestoneId, taskId, true);
+        }
+        return;
+      }
+
       if (!response.ok) {
         throw new Error('Failed to complete task');
       }
@@ -94,6 +204,332 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
     }
   };
   
+  // Start a session, confirming first when the task is blocked
+  const startTaskSession = (milestoneId: string, task: Task) => {
+    const blockers = getBlockers(task);
+    if (blockers.length > 0 &&
+        !confirm(`This task is waiting on: ${blockers.map(t => t.name).join(', ')}. Start a session anyway?`)) {
+      return;
+    }
+    setSelectedTask({ milestoneId, taskId: task._id });
+  };
+
+  // Save the prerequisites chosen in the dependency editor
+  const saveDependencies = async () => {
+    if (!editingDependencies) return;
+
+    const { milestoneId, taskId, dependsOn } = editingDependencies;
+
+    try {
+      const response = await fetch(`/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dependsOn }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save dependencies');
+      }
+
+      setEditingDependencies(null);
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error saving dependencies:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save dependencies');
+    }
+  };
+
+  // Add an item to a task's checklist
+  const addChecklistItem = async (milestoneId: string, taskId: string) => {
+    const text = newChecklistItems[taskId]?.trim();
+    if (!text) return;
+
+    try {
+      const response = await fetch(`/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}/checklist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to add checklist item');
+      }
+
+      setNewChecklistItems({ ...newChecklistItems, [taskId]: '' });
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error adding checklist item:', err);
+      setError('Failed to add checklist item');
+    }
+  };
+
+  // Rename, check or uncheck a checklist item
+  const updateChecklistItem = async (
+    milestoneId: string,
+    taskId: string,
+    itemId: string,
+    changes: { text?: string; done?: boolean }
+  ) => {
+    try {
+      const response = await fetch(`/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}/checklist/${itemId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update checklist item');
+      }
+
+      setEditingChecklistItem(null);
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error updating checklist item:', err);
+      setError('Failed to update checklist item');
+    }
+  };
+
+  // Remove an item from a task's checklist
+  const deleteChecklistItem = async (milestoneId: string, taskId: string, itemId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}/checklist/${itemId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete checklist item');
+      }
+
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error deleting checklist item:', err);
+      setError('Failed to delete checklist item');
+    }
+  };
+
+  // Drop the dragged milestone or task at a milestone's position, or before a task
+  const handleDrop = async (e: React.DragEvent, milestoneId: string, taskId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!project || !dragged) return;
+
+    const source = dragged;
+    setDragged(null);
+
+    const milestones = project.milestones.map(m => ({ ...m, tasks: [...m.tasks] }));
+    const targetMilestone = milestones.find(m => m._id === milestoneId);
+    if (!targetMilestone) return;
+
+    let url: string;
+    let body: { position: number; milestoneId?: string };
+
+    if (!source.taskId) {
+      // Milestones can only be dropped on other milestones
+      if (taskId || source.milestoneId === milestoneId) return;
+
+      const from = milestones.findIndex(m => m._id === source.milestoneId);
+      const position = milestones.indexOf(targetMilestone);
+      const [moved] = milestones.splice(from, 1);
+      milestones.splice(position, 0, moved);
+
+      url = `/api/projects/${params.id}/milestones/${source.milestoneId}/move`;
+      body = { position };
+    } else {
+      if (source.taskId === taskId) return;
+
+      const sourceMilestone = milestones.find(m => m._id === source.milestoneId);
+      if (!sourceMilestone) return;
+
+      const [moved] = sourceMilestone.tasks.splice(
+        sourceMilestone.tasks.findIndex(t => t._id === source.taskId), 1
+      );
+      const position = taskId
+        ? targetMilestone.tasks.findIndex(t => t._id === taskId)
+        : targetMilestone.tasks.length;
+      targetMilestone.tasks.splice(position, 0, moved);
+
+      url = `/api/projects/${params.id}/milestones/${source.milestoneId}/tasks/${source.taskId}/move`;
+      body = { milestoneId, position };
+    }
+
+    // Show the new order straight away
+    setProject({ ...project, milestones });
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save new order');
+      }
+    } catch (err) {
+      console.error('Error reordering project:', err);
+      setError('Failed to save new order');
+    } finally {
+      fetchProject(); // Refresh project data
+    }
+  };
+
+  // Change how overall progress is calculated
+  const updateProgressMode = async (progressMode: string) => {
+    try {
+      const response = await fetch(`/api/projects/${params.id}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ progressMode }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update progress mode');
+      }
+
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error updating progress mode:', err);
+      setError('Failed to update progress mode');
+    }
+  };
+
+  // Save a task or milestone estimate; an empty field clears it
+  const saveEstimate = async () => {
+    if (!editingEstimate) return;
+
+    const { milestoneId, taskId, hours } = editingEstimate;
+    const value = parseFloat(hours);
+    const url = taskId
+      ? `/api/projects/${params.id}/milestones/${milestoneId}/tasks/${taskId}`
+      : `/api/projects/${params.id}/milestones/${milestoneId}`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          estimateMinutes: Number.isFinite(value) && value >= 0 ? Math.round(value * 60) : null
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save estimate');
+      }
+
+      setEditingEstimate(null);
+      fetchProject(); // Refresh project data
+    } catch (err) {
+      console.error('Error saving estimate:', err);
+      setError('Failed to save estimate');
+    }
+  };
+
+  // Milestones without their own estimate show the sum of their task estimates
+  const getMilestoneEstimate = (milestone: Milestone) => {
+    if (milestone.estimateMinutes != null) return milestone.estimateMinutes;
+    const estimates = milestone.tasks
+      .map(task => task.estimateMinutes)
+      .filter((minutes): minutes is number => minutes != null);
+    return estimates.length > 0 ? estimates.reduce((acc, minutes) => acc + minutes, 0) : null;
+  };
+
+  // Inline estimate display and editor for a milestone or task
+  const renderEstimate = (milestoneId: string, estimateMinutes: number | null | undefined, taskId?: string) => {
+    if (editingEstimate && editingEstimate.milestoneId === milestoneId && editingEstimate.taskId === taskId) {
+      return (
+        <span className="inline-flex items-center gap-1 ml-2">
+          <input
+            type="number"
+            min="0"
+            step="0.25"
+            placeholder="Hours"
+            className="w-20 p-1 text-sm font-normal border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            value={editingEstimate.hours}
+            onChange={(e) => setEditingEstimate({ ...editingEstimate, hours: e.target.value })}
+            autoFocus
+          />
+          <button
+            onClick={saveEstimate}
+            className="px-2 py-1 text-xs font-normal bg-blue-500 text-white rounded hover:bg-blue-600"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => setEditingEstimate(null)}
+            className="px-2 py-1 text-xs font-normal text-gray-600 dark:text-gray-300 hover:underline"
+          >
+            Cancel
+          </button>
+        </span>
+      );
+    }
+
+    return (
+      <button
+        onClick={() => setEditingEstimate({
+          milestoneId,
+          taskId,
+          hours: estimateMinutes != null ? String(estimateMinutes / 60) : ''
+        })}
+        className="ml-2 text-sm font-normal text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+        title="Edit estimate"
+      >
+        {estimateMinutes != null ? `est. ${formatDuration(estimateMinutes * 60)}` : 'Add estimate'}
+      </button>
+    );
+  };
+
+  // Save focus interval overrides; empty fields fall back to the user's defaults
+  const saveFocusOverrides = async () => {
+    try {
+      const response = await fetch(`/api/projects/${params.id}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          focusMode: {
+            workMinutes: focusOverrides.workMinutes ? Number(focusOverrides.workMinutes) : null,
+            breakMinutes: focusOverrides.breakMinutes ? Number(focusOverrides.breakMinutes) : null
+          }
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save focus settings');
+      }
+
+      fetchProject();
+    } catch (err) {
+      console.error('Error saving focus settings:', err);
+      setError('Failed to save focus settings');
+    }
+  };
+  
+  // Due dates are whole days stored at midnight UTC
+  const formatDueDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  // Whether a due day has passed in the browser's time zone
+  const isOverdue = (dateString: string) => {
+    const now = new Date();
+    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    return dateString.slice(0, 10) < today;
+  };
+
   // Format date for display
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'No deadline';
@@ -117,10 +553,38 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
     return diffDays;
   };
 
+  // Save the project's structure as a reusable template
+  const handleSaveAsTemplate = async () => {
+    if (!project) return;
+
+    const name = prompt('Template name', project.name);
+    if (name === null || name.trim() === '') return;
+
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId: params.id, name: name.trim() }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save template');
+      }
+
+      setTemplateSaved(true);
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError('Failed to save template');
+    }
+  };
+
   // Function to handle session end
   const handleSessionEnd = () => {
     // Refresh project data to update task status
     fetchProject();
+    setSessionRefreshKey(key => key + 1);
   };
 
   if (isLoading) {
@@ -191,6 +655,15 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <button
+                onClick={handleSaveAsTemplate}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+                title={templateSaved ? 'Saved as template' : 'Save as template'}
+              >
+                {templateSaved
+                  ? <BookmarkCheck className="w-5 h-5 text-green-500" />
+                  : <BookmarkPlus className="w-5 h-5" />}
+              </button>
               <button className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400">
                 <Edit2 className="w-5 h-5" />
               </button>
@@ -217,8 +690,20 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
                   style={{ width: `${project.progress}%` }}
                 ></div>
               </div>
-              <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-                {project.milestones.filter(m => m.status === 'completed').length} of {project.milestones.length} milestones completed
+              <div className="mt-2 flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>
+                  {project.milestones.filter(m => m.status === 'completed').length} of {project.milestones.length} milestones completed
+                </span>
+                <select
+                  aria-label="Progress calculation"
+                  className="p-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white"
+                  value={project.settings?.progressMode || 'count'}
+                  onChange={(e) => updateProgressMode(e.target.value)}
+                >
+                  <option value="count">By task count</option>
+                  <option value="weighted">By task estimate</option>
+                  <option value="milestone">By milestone</option>
+                </select>
               </div>
             </div>
             
@@ -236,10 +721,53 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
                 </div>
               </div>
             )}
+            
+            <div>
+              <div className="flex items-center mb-1">
+                <Timer className="w-4 h-4 text-gray-500 dark:text-gray-400 mr-1" />
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Focus Intervals</h3>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <input
+                  type="number"
+                  min={1}
+                  aria-label="Work minutes"
+                  placeholder="Default"
+                  className="w-20 p-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                  value={focusOverrides.workMinutes}
+                  onChange={(e) => setFocusOverrides({ ...focusOverrides, workMinutes: e.target.value })}
+                />
+                <span className="text-gray-600 dark:text-gray-400">min work /</span>
+                <input
+                  type="number"
+                  min={1}
+                  aria-label="Break minutes"
+                  placeholder="Default"
+                  className="w-20 p-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                  value={focusOverrides.breakMinutes}
+                  onChange={(e) => setFocusOverrides({ ...focusOverrides, breakMinutes: e.target.value })}
+                />
+                <span className="text-gray-600 dark:text-gray-400">min break</span>
+                <button
+                  onClick={saveFocusOverrides}
+                  className="px-2 py-1 text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </div>
       
+      {/* Resume Briefing */}
+      {!selectedTask && (
+        <ResumeBriefing
+          projectId={params.id}
+          onSelectTask={(milestoneId, taskId) => setSelectedTask({ milestoneId, taskId })}
+        />
+      )}
+      
       {/* Work Session Component */}
       {selectedTask && (
         <WorkSession
@@ -252,32 +780,162 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
       
       {/* Task List */}
       <div className="mt-8">
-        <h2 className="text-xl font-semibold mb-4">Tasks</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Tasks</h2>
+          {timeRollup && (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {formatDuration(timeRollup.total)} tracked in total
+            </span>
+          )}
+        </div>
         {project.milestones.map((milestone) => (
-          <div key={milestone._id} className="mb-6">
-            <h3 className="text-lg font-medium mb-2">{milestone.name}</h3>
+          <div
+            key={milestone._id}
+            className="mb-6"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, milestone._id)}
+          >
+            <div className="flex justify-between items-center mb-2">
+              <h3
+                className="text-lg font-medium flex items-center gap-1 cursor-move"
+                draggable
+                onDragStart={() => setDragged({ milestoneId: milestone._id })}
+                onDragEnd={() => setDragged(null)}
+              >
+                <GripVertical className="w-4 h-4 text-gray-400" />
+                {milestone.name}
+                {renderEstimate(milestone._id, milestone.estimateMinutes)}
+                <button
+                  onClick={() => setEditingSchedule(editingSchedule === milestone._id ? null : milestone._id)}
+                  className={`ml-2 text-sm font-normal hover:text-blue-600 ${
+                    milestone.dueDate && milestone.status !== 'completed' && isOverdue(milestone.dueDate)
+                      ? 'text-red-600'
+                      : 'text-gray-500'
+                  }`}
+                  title="Edit due date and priority"
+                >
+                  {milestone.dueDate ? `Due ${formatDueDate(milestone.dueDate)}` : 'Set due date'}
+                </button>
+                {milestone.priority === 'high' && (
+                  <span className="ml-2 text-xs font-normal px-1.5 py-0.5 rounded bg-red-100 text-red-800">High priority</span>
+                )}
+              </h3>
+              {timeRollup?.milestones[milestone._id] && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatDuration(timeRollup.milestones[milestone._id].total)} tracked
+                  {getMilestoneEstimate(milestone) != null && (
+                    <> of {formatDuration(getMilestoneEstimate(milestone)! * 60)} estimated</>
+                  )}
+                </span>
+              )}
+            </div>
+            {editingSchedule === milestone._id && (
+              <div className="mb-2">
+                <ScheduleEditor
+                  projectId={params.id}
+                  milestoneId={milestone._id}
+                  milestone={milestone}
+                  onSaved={() => {
+                    setEditingSchedule(null);
+                    fetchProject();
+                  }}
+                  onCancel={() => setEditingSchedule(null)}
+                />
+              </div>
+            )}
             <div className="space-y-2">
               {milestone.tasks.map((task) => (
                 <div
                   key={task._id}
-                  className={`p-4 border rounded-md ${
+                  draggable
+                  onDragStart={(e) => {
+                    e.stopPropagation();
+                    setDragged({ milestoneId: milestone._id, taskId: task._id });
+                  }}
+                  onDragEnd={() => setDragged(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => handleDrop(e, milestone._id, task._id)}
+                  className={`p-4 border rounded-md cursor-move ${
                     task.status === 'completed'
                       ? 'bg-green-50 border-green-200'
-                      : 'bg-white border-gray-200'
+                      : getBlockers(task).length > 0
+                        ? 'bg-orange-50 border-orange-200'
+                        : 'bg-white border-gray-200'
                   }`}
                 >
                   <div className="flex justify-between items-center">
                     <div>
-                      <h4 className="font-medium">{task.name}</h4>
+                      <h4 className="font-medium">
+                        {task.name}
+                        {!!timeRollup?.milestones[milestone._id]?.tasks[task._id] && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">
+                            {formatDuration(timeRollup.milestones[milestone._id].tasks[task._id])}
+                          </span>
+                        )}
+                        {renderEstimate(milestone._id, task.estimateMinutes, task._id)}
+                        {task.checklist?.length > 0 && (
+                          <span className="ml-2 inline-flex items-center gap-1 text-sm font-normal text-gray-500">
+                            <ListChecks className="w-4 h-4" />
+                            {task.checklist.filter(item => item.done).length}/{task.checklist.length}
+                          </span>
+                        )}
+                      </h4>
                       {task.notes && (
                         <p className="text-sm text-gray-600 mt-1">{task.notes}</p>
                       )}
+                      {(task.dueDate || task.recurrence || task.completions?.length > 0 || task.priority === 'high') && (
+                        <p className="text-sm text-gray-500 mt-1 flex items-center gap-2">
+                          {task.dueDate && (
+                            <span className={task.status !== 'completed' && isOverdue(task.dueDate) ? 'text-red-600 font-medium' : ''}>
+                              {task.status !== 'completed' && isOverdue(task.dueDate) ? 'Overdue' : 'Due'} {formatDueDate(task.dueDate)}
+                            </span>
+                          )}
+                          {task.priority === 'high' && (
+                            <span className="text-xs px-1.5 py-0.5 rounded bg-red-100 text-red-800">High priority</span>
+                          )}
+                          {task.recurrence && (
+                            <span className="flex items-center gap-1">
+                              <Repeat className="w-3 h-3" />
+                              {describeRecurrence(task.recurrence)}
+                            </span>
+                          )}
+                          {task.completions?.length > 0 && (
+                            <span title={task.completions.map(c => new Date(c.completedAt).toLocaleDateString()).join(', ')}>
+                              Done {task.completions.length} {task.completions.length === 1 ? 'time' : 'times'} before
+                            </span>
+                          )}
+                        </p>
+                      )}
+                      {task.status !== 'completed' && getBlockers(task).length > 0 && (
+                        <p className="text-sm text-orange-700 mt-1 flex items-center gap-1">
+                          <Lock className="w-3 h-3" />
+                          Blocked by {getBlockers(task).map(t => t.name).join(', ')}
+                        </p>
+                      )}
                     </div>
                     <div className="flex space-x-2">
+                      <button
+                        onClick={() => setEditingSchedule(editingSchedule === task._id ? null : task._id)}
+                        className="p-1 hover:bg-gray-100 rounded text-gray-500"
+                        title="Edit due date and repeat"
+                      >
+                        <Repeat className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditingDependencies(
+                          editingDependencies?.taskId === task._id
+                            ? null
+                            : { milestoneId: milestone._id, taskId: task._id, dependsOn: task.dependsOn || [] }
+                        )}
+                        className="p-1 hover:bg-gray-100 rounded text-gray-500"
+                        title="Edit dependencies"
+                      >
+                        <Link2 className="w-4 h-4" />
+                      </button>
                       {task.status !== 'completed' && (
                         <>
                           <button
-                            onClick={() => setSelectedTask({ milestoneId: milestone._id, taskId: task._id })}
+                            onClick={() => startTaskSession(milestone._id, task)}
                             className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
                           >
                             Start Session
@@ -297,12 +955,130 @@ export default function ProjectDetail({ params }: { params: { id: string } }) {
                       )}
                     </div>
                   </div>
+                  {/* Checklist */}
+                  <div className="mt-2 ml-1 space-y-1">
+                    {task.checklist?.map(item => (
+                      <div key={item._id} className="flex items-center gap-2 text-sm group">
+                        <input
+                          type="checkbox"
+                          checked={item.done}
+                          onChange={(e) => updateChecklistItem(milestone._id, task._id, item._id, { done: e.target.checked })}
+                        />
+                        {editingChecklistItem?.itemId === item._id ? (
+                          <input
+                            type="text"
+                            className="flex-1 p-1 border border-gray-300 rounded-md"
+                            value={editingChecklistItem.text}
+                            onChange={(e) => setEditingChecklistItem({ ...editingChecklistItem, text: e.target.value })}
+                            onBlur={() => editingChecklistItem.text.trim()
+                              ? updateChecklistItem(milestone._id, task._id, item._id, { text: editingChecklistItem.text })
+                              : setEditingChecklistItem(null)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.currentTarget.blur();
+                              if (e.key === 'Escape') setEditingChecklistItem(null);
+                            }}
+                            autoFocus
+                          />
+                        ) : (
+                          <span
+                            onClick={() => setEditingChecklistItem({ itemId: item._id, text: item.text })}
+                            className={`flex-1 cursor-text ${item.done ? 'line-through text-gray-400' : 'text-gray-700'}`}
+                          >
+                            {item.text}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => deleteChecklistItem(milestone._id, task._id, item._id)}
+                          className="p-0.5 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                          title="Delete item"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-2 text-sm">
+                      <Plus className="w-3 h-3 text-gray-400" />
+                      <input
+                        type="text"
+                        placeholder="Add checklist item"
+                        className="flex-1 p-1 bg-transparent border-b border-transparent focus:border-gray-300 focus:outline-none"
+                        value={newChecklistItems[task._id] || ''}
+                        onChange={(e) => setNewChecklistItems({ ...newChecklistItems, [task._id]: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') addChecklistItem(milestone._id, task._id);
+                        }}
+                      />
+                    </div>
+                  </div>
+                  {editingSchedule === task._id && (
+                    <ScheduleEditor
+                      projectId={params.id}
+                      milestoneId={milestone._id}
+                      task={task}
+                      onSaved={() => {
+                        setEditingSchedule(null);
+                        fetchProject();
+                      }}
+                      onCancel={() => setEditingSchedule(null)}
+                    />
+                  )}
+                  {editingDependencies?.taskId === task._id && (
+                    <div className="mt-3 pt-3 border-t border-gray-200">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Must be completed first</p>
+                      <div className="max-h-40 overflow-y-auto space-y-1">
+                        {project.milestones.flatMap(m => m.tasks).filter(t => t._id !== task._id).map(t => (
+                          <label key={t._id} className="flex items-center gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={editingDependencies.dependsOn.includes(t._id)}
+                              onChange={(e) => setEditingDependencies({
+                                ...editingDependencies,
+                                dependsOn: e.target.checked
+                                  ? [...editingDependencies.dependsOn, t._id]
+                                  : editingDependencies.dependsOn.filter(id => id !== t._id)
+                              })}
+                            />
+                            {t.name}
+                          </label>
+                        ))}
+                      </div>
+                      <div className="flex justify-end gap-2 mt-2">
+                        <button
+                          onClick={() => setEditingDependencies(null)}
+                          className="px-2 py-1 text-xs text-gray-600 hover:underline"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={saveDependencies}
+                          className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
         ))}
       </div>
+      
+      {/* Session Timeline */}
+      <SessionTimeline
+        projectId={params.id}
+        milestones={project.milestones}
+        refreshKey={sessionRefreshKey}
+        onSessionsChange={fetchTimeRollup}
+      />
+      
+      {/* Session Notes */}
+      <NoteHistory
+        projectId={params.id}
+        taskId={selectedTask?.taskId}
+        refreshKey={sessionRefreshKey}
+      />
     </div>
   );
 }
\ No newline at end of file
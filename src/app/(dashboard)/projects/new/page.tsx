@@ -1,8 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowRight, ArrowLeft, Plus, X } from 'lucide-react';
+import { ArrowRight, ArrowLeft, Plus, X, GripVertical, LayoutTemplate } from 'lucide-react';
+import { instantiateTemplate, type TemplateStructure } from '@/lib/templates';
+import type { TemplateMilestone } from '@/models/Template';
+import type { Priority } from '@/models/Project';
+import type { Recurrence } from '@/lib/recurrence';
 
 interface ProjectData {
   name: string;
@@ -16,15 +20,57 @@ interface ProjectData {
   };
   milestones: {
     name: string;
-    tasks: string[];
+    // Estimates are entered in hours; empty means no estimate
+    estimate: string;
+    // Carried over from a template; due offsets are days after the start date
+    priority?: Priority;
+    dueOffsetDays?: number | null;
+    tasks: {
+      name: string;
+      estimate: string;
+      weight?: number | null;
+      priority?: Priority;
+      dueOffsetDays?: number | null;
+      checklist?: string[];
+      recurrence?: Recurrence | null;
+    }[];
   }[];
 }
 
+interface Template extends TemplateStructure {
+  _id: string;
+  builtIn?: boolean;
+}
+
+// Convert an hours input to whole minutes, or null when left empty
+const hoursToMinutes = (hours: string) => {
+  const value = parseFloat(hours);
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 60) : null;
+};
+
+// Convert minutes to an hours input value
+const minutesToHours = (minutes?: number | null) =>
+  minutes != null ? String(Math.round((minutes / 60) * 100) / 100) : '';
+
+// Today's date as a date input value, in local time
+const todayInputValue = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Shift a date input value by a number of days
+const shiftDate = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
 export default function NewProject() {
   const router = useRouter();
   const [step, setStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<{ milestoneIndex: number; taskIndex?: number } | null>(null);
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [startDate, setStartDate] = useState(todayInputValue);
   const [projectData, setProjectData] = useState<ProjectData>({
     name: '',
     description: '',
@@ -40,6 +86,94 @@ export default function NewProject() {
 
   const totalSteps = 4;
 
+  // Fetch the templates for the chosen category
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const query = projectData.category ? `?category=${projectData.category}` : '';
+        const response = await fetch(`/api/templates${query}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch templates');
+        }
+
+        const data = await response.json();
+        setTemplates(data.templates);
+      } catch (err) {
+        console.error('Error fetching templates:', err);
+      }
+    };
+
+    fetchTemplates();
+  }, [projectData.category]);
+
+  // Fill in the project from a template
+  const applyTemplate = (template: Template) => {
+    setSelectedTemplate(template);
+    setProjectData({
+      ...projectData,
+      category: projectData.category || template.category,
+      description: projectData.description || template.description,
+      deadline: template.deadlineOffsetDays != null
+        ? shiftDate(startDate, template.deadlineOffsetDays)
+        : projectData.deadline,
+      milestones: template.milestones.map(milestone => ({
+        name: milestone.name,
+        estimate: minutesToHours(milestone.estimateMinutes),
+        priority: milestone.priority,
+        dueOffsetDays: milestone.dueOffsetDays,
+        tasks: milestone.tasks.map(task => ({
+          name: task.name,
+          estimate: minutesToHours(task.estimateMinutes),
+          weight: task.weight,
+          priority: task.priority,
+          dueOffsetDays: task.dueOffsetDays,
+          checklist: task.checklist,
+          recurrence: task.recurrence
+        }))
+      }))
+    });
+  };
+
+  // Start over with an empty project structure
+  const clearTemplate = () => {
+    setSelectedTemplate(null);
+    setProjectData({ ...projectData, milestones: [] });
+  };
+
+  // Due dates from the template move with the start date
+  const updateStartDate = (value: string) => {
+    setStartDate(value);
+    if (value && selectedTemplate?.deadlineOffsetDays != null) {
+      setProjectData({ ...projectData, deadline: shiftDate(value, selectedTemplate.deadlineOffsetDays) });
+    }
+  };
+
+  // Delete one of the user's own templates
+  const deleteTemplate = async (templateId: string) => {
+    if (!confirm('Are you sure you want to delete this template?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete template');
+      }
+
+      setTemplates(templates.filter(t => t._id !== templateId));
+      if (selectedTemplate?._id === templateId) {
+        setSelectedTemplate(null);
+      }
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      setError('Failed to delete template. Please try again.');
+    }
+  };
+
   // Validate if current step is complete
   const isStepComplete = () => {
     switch (step) {
@@ -67,13 +201,13 @@ export default function NewProject() {
   const addMilestone = () => {
     setProjectData({
       ...projectData,
-      milestones: [...projectData.milestones, { name: '', tasks: [] }]
+      milestones: [...projectData.milestones, { name: '', estimate: '', tasks: [] }]
     });
   };
 
-  const updateMilestone = (index: number, value: string) => {
+  const updateMilestone = (index: number, field: 'name' | 'estimate', value: string) => {
     const newMilestones = [...projectData.milestones];
-    newMilestones[index].name = value;
+    newMilestones[index][field] = value;
     setProjectData({
       ...projectData,
       milestones: newMilestones
@@ -91,16 +225,16 @@ export default function NewProject() {
 
   const addTask = (milestoneIndex: number) => {
     const newMilestones = [...projectData.milestones];
-    newMilestones[milestoneIndex].tasks.push('');
+    newMilestones[milestoneIndex].tasks.push({ name: '', estimate: '' });
     setProjectData({
       ...projectData,
       milestones: newMilestones
     });
   };
 
-  const updateTask = (milestoneIndex: number, taskIndex: number, value: string) => {
+  const updateTask = (milestoneIndex: number, taskIndex: number, field: 'name' | 'estimate', value: string) => {
     const newMilestones = [...projectData.milestones];
-    newMilestones[milestoneIndex].tasks[taskIndex] = value;
+    newMilestones[milestoneIndex].tasks[taskIndex][field] = value;
     setProjectData({
       ...projectData,
       milestones: newMilestones
@@ -116,6 +250,39 @@ export default function NewProject() {
     });
   };
 
+  // Move the dragged milestone to another milestone's position
+  const dropMilestone = (targetIndex: number) => {
+    if (!dragged || dragged.taskIndex !== undefined || dragged.milestoneIndex === targetIndex) return;
+
+    const newMilestones = [...projectData.milestones];
+    const [moved] = newMilestones.splice(dragged.milestoneIndex, 1);
+    newMilestones.splice(targetIndex, 0, moved);
+    setProjectData({
+      ...projectData,
+      milestones: newMilestones
+    });
+    setDragged(null);
+  };
+
+  // Move the dragged task before another task, or to the end of a milestone
+  const dropTask = (milestoneIndex: number, taskIndex?: number) => {
+    if (!dragged || dragged.taskIndex === undefined) return;
+    if (dragged.milestoneIndex === milestoneIndex && dragged.taskIndex === taskIndex) return;
+
+    const newMilestones = projectData.milestones.map(m => ({ ...m, tasks: [...m.tasks] }));
+    const [moved] = newMilestones[dragged.milestoneIndex].tasks.splice(dragged.taskIndex, 1);
+    const targetTasks = newMilestones[milestoneIndex].tasks;
+    const position = taskIndex === undefined
+      ? targetTasks.length
+      : dragged.milestoneIndex === milestoneIndex && dragged.taskIndex < taskIndex ? taskIndex - 1 : taskIndex;
+    targetTasks.splice(position, 0, moved);
+    setProjectData({
+      ...projectData,
+      milestones: newMilestones
+    });
+    setDragged(null);
+  };
+
   const handleNext = () => {
     if (step < totalSteps) {
       setStep(step + 1);
@@ -136,16 +303,27 @@ export default function NewProject() {
     setError(null);
     
     try {
-      // Transform milestones data to match the schema
-      const transformedMilestones = projectData.milestones.map(milestone => ({
+      // Transform milestones data to match the schema, placing any
+      // template due dates relative to the start date
+      const structure: TemplateMilestone[] = projectData.milestones.map(milestone => ({
         name: milestone.name,
-        status: 'not_started',
-        tasks: milestone.tasks.map(taskName => ({
-          name: taskName,
-          status: 'not_started',
-          notes: ''
+        estimateMinutes: hoursToMinutes(milestone.estimate),
+        priority: milestone.priority || 'medium',
+        dueOffsetDays: milestone.dueOffsetDays ?? null,
+        tasks: milestone.tasks.map(task => ({
+          name: task.name,
+          estimateMinutes: hoursToMinutes(task.estimate),
+          weight: task.weight ?? null,
+          priority: task.priority || 'medium',
+          dueOffsetDays: task.dueOffsetDays ?? null,
+          checklist: task.checklist || [],
+          recurrence: task.recurrence ?? null
         }))
       }));
+      const { milestones: transformedMilestones } = instantiateTemplate(
+        { name: projectData.name, description: projectData.description, category: projectData.category, milestones: structure },
+        new Date(`${startDate || todayInputValue()}T00:00:00Z`)
+      );
 
       // Format the data for the API
       const projectPayload = {
@@ -273,6 +451,57 @@ export default function NewProject() {
                     <option value="other">Other</option>
                   </select>
                 </div>
+
+                {templates.length > 0 && (
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-1">
+                        <LayoutTemplate className="w-4 h-4" />
+                        Start from a template (Optional)
+                      </span>
+                      {selectedTemplate && (
+                        <button
+                          type="button"
+                          onClick={clearTemplate}
+                          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Start from scratch
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {templates.map(template => (
+                        <div
+                          key={template._id}
+                          onClick={() => applyTemplate(template)}
+                          className={`relative p-3 border rounded-lg cursor-pointer transition-colors ${
+                            selectedTemplate?._id === template._id
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                              : 'border-gray-200 dark:border-gray-700 hover:border-blue-300 dark:hover:border-blue-700'
+                          }`}
+                        >
+                          <div className="font-medium text-gray-800 dark:text-white pr-6">{template.name}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {template.milestones.length} milestones · {template.builtIn ? 'Built-in' : 'Yours'}
+                          </div>
+                          {!template.builtIn && (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteTemplate(template._id);
+                              }}
+                              className="absolute top-2 right-2 p-1 text-gray-400 hover:text-red-500"
+                              title="Delete template"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -312,6 +541,25 @@ export default function NewProject() {
                     onChange={handleInputChange}
                   />
                 </div>
+
+                {selectedTemplate && (
+                  <div>
+                    <label htmlFor="startDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Start Date
+                    </label>
+                    <input
+                      id="startDate"
+                      name="startDate"
+                      type="date"
+                      className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                      value={startDate}
+                      onChange={(e) => updateStartDate(e.target.value)}
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Due dates from the template are counted from this date
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -325,7 +573,16 @@ export default function NewProject() {
               <div className="space-y-3">
                 {projectData.milestones.length > 0 ? (
                   projectData.milestones.map((milestone, index) => (
-                    <div key={index} className="flex items-center gap-2">
+                    <div
+                      key={index}
+                      className="flex items-center gap-2"
+                      draggable
+                      onDragStart={() => setDragged({ milestoneIndex: index })}
+                      onDragEnd={() => setDragged(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={() => dropMilestone(index)}
+                    >
+                      <GripVertical size={20} className="text-gray-400 cursor-move flex-shrink-0" />
                       <div className="w-8 h-8 bg-blue-100 dark:bg-blue-900/30 rounded-full flex-shrink-0 flex items-center justify-center text-blue-600 dark:text-blue-400">
                         {index + 1}
                       </div>
@@ -334,7 +591,17 @@ export default function NewProject() {
                         placeholder="e.g., Research, Design, Development, Testing"
                         className="flex-1 p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
                         value={milestone.name}
-                        onChange={(e) => updateMilestone(index, e.target.value)}
+                        onChange={(e) => updateMilestone(index, 'name', e.target.value)}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.25"
+                        placeholder="Hours"
+                        title="Estimated hours (optional)"
+                        className="w-24 p-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                        value={milestone.estimate}
+                        onChange={(e) => updateMilestone(index, 'estimate', e.target.value)}
                       />
                       <button
                         onClick={() => removeMilestone(index)}
@@ -369,7 +636,12 @@ export default function NewProject() {
               
               <div className="space-y-6">
                 {projectData.milestones.map((milestone, milestoneIndex) => (
-                  <div key={milestoneIndex} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                  <div
+                    key={milestoneIndex}
+                    className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => dropTask(milestoneIndex)}
+                  >
                     <h3 className="font-medium text-gray-800 dark:text-white mb-3 flex items-center gap-2">
                       <div className="w-6 h-6 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center text-blue-600 dark:text-blue-400 text-sm">
                         {milestoneIndex + 1}
@@ -380,13 +652,35 @@ export default function NewProject() {
                     <div className="space-y-2 ml-8">
                       {milestone.tasks && milestone.tasks.length > 0 ? (
                         milestone.tasks.map((task, taskIndex) => (
-                          <div key={taskIndex} className="flex items-center gap-2">
+                          <div
+                            key={taskIndex}
+                            className="flex items-center gap-2"
+                            draggable
+                            onDragStart={() => setDragged({ milestoneIndex, taskIndex })}
+                            onDragEnd={() => setDragged(null)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => {
+                              e.stopPropagation();
+                              dropTask(milestoneIndex, taskIndex);
+                            }}
+                          >
+                            <GripVertical size={16} className="text-gray-400 cursor-move flex-shrink-0" />
                             <input
                               type="text"
                               placeholder="Enter task description"
                               className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                              value={task}
-                              onChange={(e) => updateTask(milestoneIndex, taskIndex, e.target.value)}
+                              value={task.name}
+                              onChange={(e) => updateTask(milestoneIndex, taskIndex, 'name', e.target.value)}
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.25"
+                              placeholder="Hours"
+                              title="Estimated hours (optional)"
+                              className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                              value={task.estimate}
+                              onChange={(e) => updateTask(milestoneIndex, taskIndex, 'estimate', e.target.value)}
                             />
                             <button
                               onClick={() => removeTask(milestoneIndex, taskIndex)}
@@ -14,6 +14,7 @@ import {
   Search,
   CalendarDays
 } from 'lucide-react';
+import CloneProjectDialog from '@/components/CloneProjectDialog';
 
 interface Task {
   _id: string;
@@ -43,18 +44,20 @@ interface Project {
   createdAt: string;
   updatedAt: string;
   deadline?: string;
+  archivedAt?: string | null;
   milestones: Milestone[];
 }
 
 export default function ProjectsPage() {
   const { status } = useSession();
-  const [activeTab, setActiveTab] = useState<'active' | 'completed'>('active');
+  const [activeTab, setActiveTab] = useState<'active' | 'completed' | 'archived'>('active');
   const [projects, setProjects] = useState<Project[]>([]);
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showDropdown, setShowDropdown] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [cloningProject, setCloningProject] = useState<Project | null>(null);
 
   // Filter projects based on search query
   const filteredProjects = projects.filter(project => 
@@ -182,6 +185,42 @@ export default function ProjectsPage() {
     }
   };
 
+  // Archive a project, or restore it to active or completed depending on its progress
+  const handleArchiveProject = async (project: Project, archive: boolean) => {
+    try {
+      const response = await fetch(`/api/projects/${project._id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          status: archive ? 'archived' : project.progress === 100 ? 'completed' : 'active'
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to ${archive ? 'archive' : 'unarchive'} project`);
+      }
+
+      // The project moves to another tab
+      setProjects(projects.filter(p => p._id !== project._id));
+      setShowDropdown(null);
+    } catch (err) {
+      console.error('Error updating project status:', err);
+      setError(`Failed to ${archive ? 'archive' : 'unarchive'} project. Please try again.`);
+    }
+  };
+
+  // Duplicates start out active, so show them on the active tab
+  const handleProjectCloned = () => {
+    setCloningProject(null);
+    if (activeTab === 'active') {
+      fetchProjects();
+    } else {
+      setActiveTab('active');
+    }
+  };
+
   // Toggle dropdown menu
   const toggleDropdown = (projectId: string) => {
     setShowDropdown(showDropdown === projectId ? null : projectId);
@@ -256,6 +295,16 @@ export default function ProjectsPage() {
           >
             Completed Projects
           </button>
+          <button
+            onClick={() => setActiveTab('archived')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'archived'
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400 dark:border-blue-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            Archived
+          </button>
         </nav>
       </div>
       
@@ -280,12 +329,14 @@ export default function ProjectsPage() {
             <Plus className="w-7 h-7" />
           </div>
           <h3 className="text-gray-800 dark:text-gray-200 font-medium mb-1">
-            {activeTab === 'active' ? "No active projects" : "No completed projects"}
+            {{ active: "No active projects", completed: "No completed projects", archived: "No archived projects" }[activeTab]}
           </h3>
           <p className="text-gray-500 dark:text-gray-400 mb-4">
-            {activeTab === 'active' 
-              ? "Create a new project to get started tracking your progress" 
-              : "Complete projects will appear here once finished"}
+            {{
+              active: "Create a new project to get started tracking your progress",
+              completed: "Complete projects will appear here once finished",
+              archived: "Archived projects are kept here, out of your agenda and search"
+            }[activeTab]}
           </p>
           {activeTab === 'active' && (
             <Link 
@@ -322,7 +373,9 @@ export default function ProjectsPage() {
                 </div>
                 <div className="flex items-center gap-4">
                   <div className="text-sm text-gray-500 dark:text-gray-400">
-                    Updated: {getTimeSince(project.updatedAt)}
+                    {project.status === 'archived' && project.archivedAt
+                      ? `Archived: ${getTimeSince(project.archivedAt)}`
+                      : `Updated: ${getTimeSince(project.updatedAt)}`}
                   </div>
                   <div className="relative w-32 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
                     <div 
@@ -353,6 +406,21 @@ export default function ProjectsPage() {
                     </button>
                     {showDropdown === project._id && (
                       <div className="dropdown-menu absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-100 dark:border-gray-700 py-1 z-10">
+                        <button
+                          onClick={() => {
+                            setCloningProject(project);
+                            setShowDropdown(null);
+                          }}
+                          className="w-full px-4 py-2 text-left text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          Duplicate Project
+                        </button>
+                        <button
+                          onClick={() => handleArchiveProject(project, project.status !== 'archived')}
+                          className="w-full px-4 py-2 text-left text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          {project.status === 'archived' ? 'Unarchive Project' : 'Archive Project'}
+                        </button>
                         <button
                           onClick={() => handleDeleteProject(project._id)}
                           className="w-full px-4 py-2 text-left text-red-600 dark:text-red-400 hover:bg-gray-50 dark:hover:bg-gray-700"
@@ -437,6 +505,14 @@ export default function ProjectsPage() {
           ))}
         </div>
       )}
+
+      {cloningProject && (
+        <CloneProjectDialog
+          project={cloningProject}
+          onClose={() => setCloningProject(null)}
+          onCloned={handleProjectCloned}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
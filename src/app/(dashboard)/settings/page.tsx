@@ -20,6 +20,8 @@ import { useTheme } from 'next-themes';
 import mongoose from 'mongoose';
 import { cache } from 'react';
 import { getCsrfToken } from 'next-auth/react';
+import CalendarFeed from '@/components/CalendarFeed';
+import DataTransfer from '@/components/DataTransfer';
 
 interface UserSettings {
   displayName: string;
@@ -33,6 +35,19 @@ interface UserSettings {
       captureApps: boolean;
       captureBrowsers: boolean;
       saveLocation: 'local' | 'cloud' | 'none';
+    };
+    focusMode: {
+      workMinutes: number;
+      breakMinutes: number;
+    };
+    idleDetection: {
+      enabled: boolean;
+      thresholdMinutes: number;
+      action: 'pause' | 'end';
+    };
+    autoArchive: {
+      enabled: boolean;
+      days: number;
     }
   }
 }
@@ -87,6 +102,19 @@ export default function Settings() {
         captureApps: true,
         captureBrowsers: true,
         saveLocation: 'local'
+      },
+      focusMode: {
+        workMinutes: 25,
+        breakMinutes: 5
+      },
+      idleDetection: {
+        enabled: false,
+        thresholdMinutes: 30,
+        action: 'pause'
+      },
+      autoArchive: {
+        enabled: false,
+        days: 30
       }
     }
   });
@@ -185,6 +213,48 @@ export default function Settings() {
     });
   };
   
+  // Update focus interval defaults
+  const updateFocusMode = (changes: Partial<UserSettings['settings']['focusMode']>) => {
+    setUserSettings({
+      ...userSettings,
+      settings: {
+        ...userSettings.settings,
+        focusMode: {
+          ...userSettings.settings.focusMode,
+          ...changes
+        }
+      }
+    });
+  };
+  
+  // Update idle detection settings
+  const updateIdleDetection = (changes: Partial<UserSettings['settings']['idleDetection']>) => {
+    setUserSettings({
+      ...userSettings,
+      settings: {
+        ...userSettings.settings,
+        idleDetection: {
+          ...userSettings.settings.idleDetection,
+          ...changes
+        }
+      }
+    });
+  };
+  
+  // Update auto-archive settings
+  const updateAutoArchive = (changes: Partial<UserSettings['settings']['autoArchive']>) => {
+    setUserSettings({
+      ...userSettings,
+      settings: {
+        ...userSettings.settings,
+        autoArchive: {
+          ...userSettings.settings.autoArchive,
+          ...changes
+        }
+      }
+    });
+  };
+  
   // Handle name change
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setUserSettings({
@@ -543,6 +613,136 @@ export default function Settings() {
                     </div>
                   </>
                 )}
+                
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Focus mode intervals</h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Default lengths for focus sessions; projects can override them</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="focus-work" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Work (minutes)
+                      </label>
+                      <input
+                        id="focus-work"
+                        type="number"
+                        min={1}
+                        max={240}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                        value={userSettings.settings.focusMode.workMinutes}
+                        onChange={(e) => updateFocusMode({ workMinutes: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="focus-break" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Break (minutes)
+                      </label>
+                      <input
+                        id="focus-break"
+                        type="number"
+                        min={1}
+                        max={120}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                        value={userSettings.settings.focusMode.breakMinutes}
+                        onChange={(e) => updateFocusMode({ breakMinutes: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                </div>
+                
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Idle detection</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Stop tracking time when the Blivalley tab is closed or your device sleeps during a session</p>
+                  </div>
+                  <button
+                    type="button"
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${
+                      userSettings.settings.idleDetection.enabled ? 'bg-blue-600 dark:bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'
+                    }`}
+                    onClick={() => updateIdleDetection({ enabled: !userSettings.settings.idleDetection.enabled })}
+                  >
+                    <span
+                      className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white dark:bg-gray-200 shadow ring-0 transition duration-200 ease-in-out ${
+                        userSettings.settings.idleDetection.enabled ? 'translate-x-5' : 'translate-x-0'
+                      }`}
+                    />
+                  </button>
+                </div>
+                
+                {userSettings.settings.idleDetection.enabled && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="idle-threshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Idle after (minutes)
+                      </label>
+                      <input
+                        id="idle-threshold"
+                        type="number"
+                        min={1}
+                        max={1440}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                        value={userSettings.settings.idleDetection.thresholdMinutes}
+                        onChange={(e) => updateIdleDetection({ thresholdMinutes: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="idle-action" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        When idle
+                      </label>
+                      <select
+                        id="idle-action"
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:text-white"
+                        value={userSettings.settings.idleDetection.action}
+                        onChange={(e) => updateIdleDetection({ action: e.target.value as 'pause' | 'end' })}
+                      >
+                        <option value="pause">Pause the session</option>
+                        <option value="end">End the session</option>
+                      </select>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 md:col-span-2">
+                      Tracked time is trimmed back to your last activity
+                    </p>
+                  </div>
+                )}
+                
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Auto-archive</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Archive completed projects you have not touched in a while</p>
+                  </div>
+                  <button
+                    type="button"
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${
+                      userSettings.settings.autoArchive.enabled ? 'bg-blue-600 dark:bg-blue-500' : 'bg-gray-200 dark:bg-gray-700'
+                    }`}
+                    onClick={() => updateAutoArchive({ enabled: !userSettings.settings.autoArchive.enabled })}
+                  >
+                    <span
+                      className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white dark:bg-gray-200 shadow ring-0 transition duration-200 ease-in-out ${
+                        userSettings.settings.autoArchive.enabled ? 'translate-x-5' : 'translate-x-0'
+                      }`}
+                    />
+                  </button>
+                </div>
+                
+                {userSettings.settings.autoArchive.enabled && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="auto-archive-days" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Archive after (days)
+                      </label>
+                      <input
+                        id="auto-archive-days"
+                        type="number"
+                        min={1}
+                        max={365}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                        value={userSettings.settings.autoArchive.days}
+                        onChange={(e) => updateAutoArchive({ days: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -572,6 +772,10 @@ export default function Settings() {
           </button>
         </div>
       </form>
+
+      <CalendarFeed />
+
+      <DataTransfer />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { buildAgenda } from "@/lib/agenda";
+import { isValidTimeZone } from "@/lib/dates";
+
+// GET the tasks to work on now across all active projects, and archived
+// ones with ?includeArchived=true. Due days are judged in ?timezone, UTC
+// by default.
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access your agenda" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const includeArchived = searchParams.get("includeArchived") === "true";
+    const timeZone = searchParams.get("timezone") || 'UTC';
+
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: "Unknown timezone" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const projects = await Project.find({
+      userId: session.user.id,
+      status: includeArchived ? { $in: ['active', 'archived'] } : 'active'
+    }).select('name deadline milestones');
+
+    return NextResponse.json({
+      generatedAt: new Date(),
+      items: buildAgenda(projects, new Date(), timeZone)
+    });
+  } catch (error) {
+    console.error("Error building agenda:", error);
+    return NextResponse.json(
+      { error: "Failed to build agenda" },
+      { status: 500 }
+    );
+  }
+}
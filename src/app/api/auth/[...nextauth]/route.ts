@@ -96,6 +96,19 @@ export const authOptions: NextAuthOptions = {
                   captureApps: true,
                   captureBrowsers: true,
                   saveLocation: 'local'
+                },
+                focusMode: {
+                  workMinutes: 25,
+                  breakMinutes: 5
+                },
+                idleDetection: {
+                  enabled: false,
+                  thresholdMinutes: 30,
+                  action: 'pause'
+                },
+                autoArchive: {
+                  enabled: false,
+                  days: 30
                 }
               }
             });
@@ -82,6 +82,19 @@ export async function POST(req: NextRequest) {
           captureApps: true,
           captureBrowsers: true,
           saveLocation: 'local'
+        },
+        focusMode: {
+          workMinutes: 25,
+          breakMinutes: 5
+        },
+        idleDetection: {
+          enabled: false,
+          thresholdMinutes: 30,
+          action: 'pause'
+        },
+        autoArchive: {
+          enabled: false,
+          days: 30
         }
       }
     });
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import User from "@/models/User";
+import { buildCalendarFeed } from "@/lib/calendar";
+
+// Completed sessions older than this are left out of the feed
+const SESSION_HISTORY_DAYS = 90;
+
+// GET the iCalendar feed of the user owning the token. Calendar apps
+// cannot sign in, so the secret token in the URL stands in for a session.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Calendar apps often expect the URL to end in .ics
+    const token = params.token.replace(/\.ics$/, '');
+
+    await connectToDatabase();
+
+    const user = token ? await User.findOne({ calendarToken: token }).select('_id') : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Calendar feed not found" },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    const [projects, sessions] = await Promise.all([
+      Project.find({ userId: user._id })
+        .select('name status deadline milestones._id milestones.tasks._id milestones.tasks.name milestones.tasks.dueDate'),
+      Session.find({
+        userId: user._id,
+        status: 'completed',
+        startTime: { $gte: new Date(now.getTime() - SESSION_HISTORY_DAYS * 24 * 60 * 60 * 1000) }
+      }).select('projectId milestoneId taskId startTime endTime note')
+    ]);
+
+    const feed = buildCalendarFeed(projects, sessions, new URL(req.url).origin, now);
+
+    return new NextResponse(feed, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="blivalley.ics"'
+      }
+    });
+  } catch (error) {
+    console.error("Error building calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import User from "@/models/User";
+import { buildExportBundle } from "@/lib/data-bundle";
+
+// GET a JSON bundle of all of the user's data
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to export your data" },
+        { status: 401 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(session.user.id).select('displayName settings').lean<{
+      displayName: string;
+      settings: Record<string, unknown>;
+    }>();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const [projects, sessions] = await Promise.all([
+      Project.find({ userId: session.user.id }).sort({ createdAt: 1 }).lean<Record<string, unknown>[]>(),
+      Session.find({ userId: session.user.id }).sort({ startTime: 1 }).lean<Record<string, unknown>[]>()
+    ]);
+
+    const now = new Date();
+    const bundle = buildExportBundle(user, projects, sessions, now);
+
+    return NextResponse.json(bundle, {
+      headers: {
+        'Content-Disposition': `attachment; filename="blivalley-export-${now.toISOString().slice(0, 10)}.json"`
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting data:", error);
+    return NextResponse.json(
+      { error: "Failed to export data" },
+      { status: 500 }
+    );
+  }
+}
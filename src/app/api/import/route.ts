@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import User from "@/models/User";
+import mongoose from "mongoose";
+import { findOverlappingSession } from "@/lib/sessions";
+import { projectOrigin, remapBundle, validateBundle, type ImportMode, type ImportReport } from "@/lib/data-bundle";
+
+// POST an export bundle to import. With ?dryRun=true nothing is written
+// and only the report of what the import would do is returned.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to import data" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const mode = (searchParams.get('mode') || 'merge') as ImportMode;
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json(
+        { error: "Mode must be merge or replace" },
+        { status: 400 }
+      );
+    }
+
+    let input: unknown;
+    try {
+      input = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON" },
+        { status: 400 }
+      );
+    }
+
+    const bundle = validateBundle(input);
+
+    if (typeof bundle === 'string') {
+      return NextResponse.json(
+        { error: bundle },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(session.user.id);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    // Merging leaves out projects already in the account, either as the
+    // originals or from an earlier import of the same bundle
+    const origins = bundle.projects.map(projectOrigin).filter(id => mongoose.Types.ObjectId.isValid(id));
+    const existing = mode === 'merge' && origins.length > 0
+      ? await Project.find({
+          userId: session.user.id,
+          $or: [{ _id: { $in: origins } }, { importedFrom: { $in: origins } }]
+        }).select('_id importedFrom').lean<{ _id: unknown; importedFrom?: unknown }[]>()
+      : [];
+    const importedOrigins = new Set(existing.flatMap(project => [String(project._id), String(project.importedFrom)]));
+
+    const { projects, sessions, skippedSessions, warnings } = remapBundle(bundle, session.user.id, importedOrigins);
+
+    // Run the schema validation up front so a bad bundle writes nothing
+    const projectDocs = projects.map(project => new Project(project));
+    const sessionDocs = sessions.map(sessionData => new Session(sessionData));
+
+    const invalid = [
+      ...projectDocs.map(doc => ({ label: `project "${doc.name}"`, error: doc.validateSync() })),
+      ...sessionDocs.map(doc => ({ label: `session ${doc._id}`, error: doc.validateSync() }))
+    ].find(result => result.error);
+
+    if (invalid) {
+      return NextResponse.json(
+        { error: `Invalid ${invalid.label}: ${invalid.error.message}` },
+        { status: 400 }
+      );
+    }
+
+    // Replacing also restores the exported settings
+    if (mode === 'replace') {
+      user.set('settings', bundle.profile.settings);
+      const validationError = user.validateSync();
+      if (validationError) {
+        return NextResponse.json(
+          { error: `Invalid settings: ${validationError.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Sessions are skipped where they overlap one already imported, or when
+    // merging, time already tracked
+    const importedSessions: typeof sessionDocs = [];
+    for (const doc of sessionDocs) {
+      const overlapsImported = importedSessions.some(other =>
+        other.startTime < doc.endTime && doc.startTime < other.endTime);
+      const overlapping = !overlapsImported && mode === 'merge' &&
+        await findOverlappingSession(session.user.id, doc.startTime, doc.endTime);
+
+      if (overlapsImported) {
+        warnings.push(`Skipped the session started ${doc.startTime.toISOString()}, which overlaps another session in the bundle`);
+      } else if (overlapping) {
+        warnings.push(`Skipped the session started ${doc.startTime.toISOString()}, which overlaps an existing session`);
+      } else {
+        importedSessions.push(doc);
+      }
+    }
+
+    // Replaced data is removed by ID once the import is in, so nothing
+    // imported is caught by the delete
+    const [existingProjectIds, existingSessionIds] = mode === 'replace'
+      ? await Promise.all([
+          Project.find({ userId: session.user.id }).distinct('_id'),
+          Session.find({ userId: session.user.id }).distinct('_id')
+        ])
+      : [[], []];
+
+    const report: ImportReport = {
+      mode,
+      dryRun,
+      projects: { imported: projectDocs.length, removed: existingProjectIds.length },
+      sessions: {
+        imported: importedSessions.length,
+        skipped: skippedSessions + sessionDocs.length - importedSessions.length,
+        removed: existingSessionIds.length
+      },
+      settingsReplaced: mode === 'replace',
+      warnings
+    };
+
+    if (dryRun) {
+      return NextResponse.json(report);
+    }
+
+    // Everything is written before the replaced data is removed. If a write
+    // fails, what was written is removed again and the old data is kept.
+    try {
+      // Saved one at a time so progress and ordering are recalculated
+      for (const doc of projectDocs) {
+        await doc.save();
+      }
+      await Session.insertMany(importedSessions);
+    } catch (error) {
+      await Promise.all([
+        Project.deleteMany({ _id: { $in: projectDocs.map(doc => doc._id) } }),
+        Session.deleteMany({ _id: { $in: importedSessions.map(doc => doc._id) } })
+      ]);
+      throw error;
+    }
+
+    if (mode === 'replace') {
+      await Project.deleteMany({ userId: session.user.id, _id: { $in: existingProjectIds } });
+      await Session.deleteMany({ userId: session.user.id, _id: { $in: existingSessionIds } });
+      await user.save();
+    }
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error("Error importing data:", error);
+    return NextResponse.json(
+      { error: "Failed to import data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { cloneProjectData, parseCloneOptions } from "@/lib/clone";
+
+// POST to create a copy of a project
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to clone a project" },
+        { status: 401 }
+      );
+    }
+
+    // Every option has a default, so the body may be empty
+    const text = await req.text();
+    let body: unknown = {};
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return NextResponse.json(
+          { error: "Request body must be valid JSON" },
+          { status: 400 }
+        );
+      }
+    }
+
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: params.id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    const source = project.toObject();
+    const options = parseCloneOptions(body, source);
+
+    if (typeof options === 'string') {
+      return NextResponse.json(
+        { error: options },
+        { status: 400 }
+      );
+    }
+
+    const clone = new Project({
+      userId: session.user.id,
+      status: 'active',
+      ...cloneProjectData(source, options)
+    });
+    await clone.save();
+
+    return NextResponse.json(clone, { status: 201 });
+  } catch (error) {
+    console.error("Error cloning project:", error);
+    return NextResponse.json(
+      { error: "Failed to clone project" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { isValidPosition } from "@/lib/projects";
+
+// POST to move a milestone to a new position in the project
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to reorder milestones" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId } = params;
+    const body = await req.json();
+    
+    if (!isValidPosition(body.position)) {
+      return NextResponse.json(
+        { error: "Position must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    const moved = milestone.toObject();
+    milestone.deleteOne();
+    project.milestones.splice(Math.min(body.position, project.milestones.length), 0, moved);
+    
+    await project.save();
+
+    return NextResponse.json({
+      milestones: project.milestones.map((m: { _id: unknown; order: number }) => ({
+        id: m._id,
+        order: m.order
+      }))
+    });
+  } catch (error) {
+    console.error("Error moving milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to move milestone" },
+      { status: 500 }
+    );
+  }
+}
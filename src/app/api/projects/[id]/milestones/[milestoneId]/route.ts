@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { validateMilestoneInput } from "@/lib/projects";
+
+// PATCH to rename a milestone or change its estimate, due date or priority
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update milestones" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId } = params;
+    const body = await req.json();
+    
+    const validationError = validateMilestoneInput(body, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.name !== undefined) {
+      milestone.name = body.name.trim();
+    }
+
+    if (body.estimateMinutes !== undefined) {
+      milestone.estimateMinutes = body.estimateMinutes === null ? null : Math.round(body.estimateMinutes);
+    }
+
+    if (body.dueDate !== undefined) {
+      milestone.dueDate = body.dueDate === null ? null : new Date(body.dueDate);
+    }
+
+    if (body.priority !== undefined) {
+      milestone.priority = body.priority;
+    }
+    
+    await project.save();
+
+    return NextResponse.json({
+      milestone,
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    });
+  } catch (error) {
+    console.error("Error updating milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to update milestone" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a milestone and its tasks
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to delete milestones" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId } = params;
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    const removedTaskIds = new Set(milestone.tasks.map((t: { _id: unknown }) => String(t._id)));
+    milestone.deleteOne();
+
+    // Other tasks no longer wait on the deleted milestone's tasks
+    for (const m of project.milestones) {
+      for (const t of m.tasks) {
+        if (t.dependsOn.some((dependency: unknown) => removedTaskIds.has(String(dependency)))) {
+          t.dependsOn = t.dependsOn.filter((dependency: unknown) => !removedTaskIds.has(String(dependency)));
+        }
+      }
+    }
+    
+    await project.save();
+
+    return NextResponse.json({
+      success: true,
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    });
+  } catch (error) {
+    console.error("Error deleting milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to delete milestone" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectToDatabase from "@/lib/db";
 import Project from "@/models/Project";
+import { advanceRecurrence, getIncompletePrerequisites, syncMilestoneStatus } from "@/lib/projects";
 
 // PUT to update a milestone's status
 export async function PUT(
@@ -52,6 +53,31 @@ export async function PUT(
       );
     }
 
+    // Completing the milestone completes its tasks, which cannot happen before
+    // prerequisites in other milestones are done, unless forced
+    if (body.status === 'completed' && !body.force) {
+      const inMilestone = new Set(milestone.tasks.map((t: { _id: unknown }) => String(t._id)));
+      const blockedBy = new Map();
+      for (const task of milestone.tasks) {
+        if (task.status === 'completed') continue;
+        for (const prerequisite of getIncompletePrerequisites(project, task)) {
+          if (!inMilestone.has(String(prerequisite._id))) {
+            blockedBy.set(String(prerequisite._id), prerequisite);
+          }
+        }
+      }
+
+      if (blockedBy.size > 0) {
+        return NextResponse.json(
+          {
+            error: "Milestone has tasks blocked by incomplete prerequisites",
+            blockedBy: [...blockedBy.values()].map(t => ({ id: t._id, name: t.name, status: t.status }))
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // Update milestone status
     milestone.status = body.status;
     
@@ -60,11 +86,19 @@ export async function PUT(
       milestone.tasks.forEach(task => {
         task.status = 'completed';
       });
+
+      // Recurring tasks carry on with their next instance
+      const completedAt = new Date();
+      for (const task of [...milestone.tasks]) {
+        advanceRecurrence(milestone, task, completedAt);
+      }
+      syncMilestoneStatus(milestone);
     }
     
-    // When setting milestone to in progress, set not-started tasks to in_progress
+    // When setting milestone to in progress, start the first unblocked not-started task
     if (body.status === 'in_progress' && milestone.tasks.some(t => t.status === 'not_started')) {
-      const firstNotStartedTask = milestone.tasks.find(t => t.status === 'not_started');
+      const firstNotStartedTask = milestone.tasks.find(t =>
+        t.status === 'not_started' && getIncompletePrerequisites(project, t).length === 0);
       if (firstNotStartedTask) {
         firstNotStartedTask.status = 'in_progress';
       }
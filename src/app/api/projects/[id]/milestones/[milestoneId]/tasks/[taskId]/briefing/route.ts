@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { buildBriefing } from "@/lib/briefing";
+
+// GET a briefing for resuming work on a task
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access this project" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId, taskId } = params;
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the task
+    const task = milestone.tasks.id(taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    const query = {
+      userId: session.user.id,
+      projectId: project._id,
+      taskId,
+      status: 'completed'
+    };
+
+    const lastSession = await Session.findOne(query).sort({ endTime: -1 });
+    const snapshotSession = await Session.findOne({ ...query, snapshot: { $exists: true } }).sort({ endTime: -1 });
+
+    return NextResponse.json(buildBriefing(project, { lastSession, snapshotSession }, new Date(), taskId));
+  } catch (error) {
+    console.error("Error building task briefing:", error);
+    return NextResponse.json(
+      { error: "Failed to build task briefing" },
+      { status: 500 }
+    );
+  }
+}
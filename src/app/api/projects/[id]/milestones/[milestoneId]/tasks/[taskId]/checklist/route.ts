@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { advanceRecurrence, getIncompletePrerequisites, syncMilestoneStatus, syncTaskStatusFromChecklist, validateChecklistItemInput } from "@/lib/projects";
+
+// POST to add an item to a task's checklist
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to edit checklists" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId, taskId } = params;
+    const body = await req.json();
+    
+    const validationError = validateChecklistItemInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the task
+    const task = milestone.tasks.id(taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    task.checklist.push({ text: body.text.trim(), done: body.done ?? false });
+
+    syncTaskStatusFromChecklist(task, getIncompletePrerequisites(project, task).length > 0);
+    advanceRecurrence(milestone, task, new Date());
+    syncMilestoneStatus(milestone);
+    
+    await project.save();
+
+    return NextResponse.json({
+      task: {
+        id: taskId,
+        status: task.status,
+        checklist: task.checklist
+      },
+      milestone: {
+        id: milestoneId,
+        status: milestone.status
+      },
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding checklist item:", error);
+    return NextResponse.json(
+      { error: "Failed to add checklist item" },
+      { status: 500 }
+    );
+  }
+}
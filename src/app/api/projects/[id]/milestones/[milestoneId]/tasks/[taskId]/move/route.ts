@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { isValidPosition, syncMilestoneStatus } from "@/lib/projects";
+
+// POST to move a task within its milestone or to another milestone
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to move tasks" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId, taskId } = params;
+    const body = await req.json();
+    const targetMilestoneId = body.milestoneId || milestoneId;
+    
+    if (body.position !== undefined && !isValidPosition(body.position)) {
+      return NextResponse.json(
+        { error: "Position must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the source and target milestones
+    const milestone = project.milestones.id(milestoneId);
+    const targetMilestone = project.milestones.id(targetMilestoneId);
+    if (!milestone || !targetMilestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the task
+    const task = milestone.tasks.id(taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    const moved = task.toObject();
+    task.deleteOne();
+    targetMilestone.tasks.splice(
+      Math.min(body.position ?? targetMilestone.tasks.length, targetMilestone.tasks.length),
+      0,
+      moved
+    );
+
+    syncMilestoneStatus(milestone);
+    syncMilestoneStatus(targetMilestone);
+    
+    await project.save();
+
+    // Keep tracked time attributed to the task's new milestone
+    if (targetMilestoneId !== milestoneId) {
+      await Session.updateMany(
+        { userId: session.user.id, projectId: project._id, taskId },
+        { $set: { milestoneId: targetMilestoneId } }
+      );
+    }
+
+    return NextResponse.json({
+      task: targetMilestone.tasks.id(taskId),
+      milestones: [milestone, targetMilestone]
+        .filter((m, index, all) => all.indexOf(m) === index)
+        .map(m => ({ id: m._id, status: m.status })),
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    });
+  } catch (error) {
+    console.error("Error moving task:", error);
+    return NextResponse.json(
+      { error: "Failed to move task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { syncMilestoneStatus, validateDependencies, validateTaskInput } from "@/lib/projects";
+import { parseRecurrence } from "@/lib/recurrence";
+
+// PATCH to edit a task's details, dependencies, due date, priority or recurrence
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update tasks" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId, taskId } = params;
+    const body = await req.json();
+    
+    const validationError = validateTaskInput(body, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the task
+    const task = milestone.tasks.id(taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.dependsOn !== undefined) {
+      const dependencyError = validateDependencies(project, taskId, body.dependsOn);
+      if (dependencyError) {
+        return NextResponse.json(
+          { error: dependencyError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.name !== undefined) {
+      task.name = body.name.trim();
+    }
+
+    if (body.notes !== undefined) {
+      task.notes = body.notes;
+    }
+
+    if (body.estimateMinutes !== undefined) {
+      task.estimateMinutes = body.estimateMinutes === null ? null : Math.round(body.estimateMinutes);
+    }
+
+    if (body.weight !== undefined) {
+      task.weight = body.weight;
+    }
+
+    if (body.dependsOn !== undefined) {
+      task.dependsOn = Array.from(new Set(body.dependsOn));
+    }
+
+    if (body.dueDate !== undefined) {
+      task.dueDate = body.dueDate === null ? null : new Date(body.dueDate);
+    }
+
+    if (body.priority !== undefined) {
+      task.priority = body.priority;
+    }
+
+    if (body.recurrence !== undefined) {
+      task.recurrence = parseRecurrence(body.recurrence);
+    }
+    
+    await project.save();
+
+    return NextResponse.json({
+      task,
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    });
+  } catch (error) {
+    console.error("Error updating task:", error);
+    return NextResponse.json(
+      { error: "Failed to update task" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a task from its milestone
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to delete tasks" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId, taskId } = params;
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the task
+    const task = milestone.tasks.id(taskId);
+    if (!task) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    task.deleteOne();
+
+    // Other tasks no longer wait on the deleted one
+    for (const m of project.milestones) {
+      for (const t of m.tasks) {
+        if (t.dependsOn.some((dependency: unknown) => String(dependency) === taskId)) {
+          t.dependsOn = t.dependsOn.filter((dependency: unknown) => String(dependency) !== taskId);
+        }
+      }
+    }
+
+    // The remaining tasks may now all be completed
+    syncMilestoneStatus(milestone);
+    
+    await project.save();
+
+    return NextResponse.json({
+      success: true,
+      milestone: {
+        id: milestoneId,
+        status: milestone.status
+      },
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    });
+  } catch (error) {
+    console.error("Error deleting task:", error);
+    return NextResponse.json(
+      { error: "Failed to delete task" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectToDatabase from "@/lib/db";
 import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { advanceRecurrence, appendTaskNote, getIncompletePrerequisites, syncMilestoneStatus } from "@/lib/projects";
 
 // PUT to update a task's status
 export async function PUT(
@@ -61,45 +63,65 @@ export async function PUT(
       );
     }
 
+    // Tasks cannot be worked on before their prerequisites are done, unless forced
+    if (body.status !== 'not_started' && !body.force) {
+      const blockedBy = getIncompletePrerequisites(project, task);
+      if (blockedBy.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Task is blocked by incomplete prerequisites",
+            blockedBy: blockedBy.map(t => ({ id: t._id, name: t.name, status: t.status }))
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // Update task status
     task.status = body.status;
     
     // If status changed to in_progress, add last session info
     if (body.status === 'in_progress' && body.note) {
-      task.lastSession = {
-        timestamp: new Date(),
-        note: body.note
-      };
+      appendTaskNote(task, body.note, null, new Date());
     }
     
-    // Update milestone status based on tasks
-    const allTasksCompleted = milestone.tasks.every(t => t.status === 'completed');
-    const anyTaskInProgress = milestone.tasks.some(t => t.status === 'in_progress');
-    const allTasksNotStarted = milestone.tasks.every(t => t.status === 'not_started');
+    // Completing a recurring task adds its next instance
+    const nextTask = advanceRecurrence(milestone, task, new Date());
     
-    if (allTasksCompleted) {
-      milestone.status = 'completed';
-    } else if (anyTaskInProgress) {
-      milestone.status = 'in_progress';
-    } else if (allTasksNotStarted) {
-      milestone.status = 'not_started';
-    }
+    // Update milestone status based on tasks
+    syncMilestoneStatus(milestone);
     
     await project.save();
 
+    // Record the change on the open work session for this task, if any
+    await Session.updateOne(
+      { userId: session.user.id, taskId, status: { $in: ['active', 'paused'] } },
+      {
+        $push: {
+          activities: {
+            timestamp: new Date(),
+            action: 'task_status_changed',
+            metadata: { taskId, status: body.status }
+          }
+        }
+      }
+    );
+
     return NextResponse.json({
       task: {
         id: taskId,
         status: task.status,
         lastSession: task.lastSession
       },
+      nextTask,
       milestone: {
         id: milestoneId,
         status: milestone.status
       },
       project: {
         id: project._id,
-        progress: project.progress
+        progress: project.progress,
+        progressMode: project.settings.progressMode
       }
     });
   } catch (error) {
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { syncMilestoneStatus, validateTaskInput } from "@/lib/projects";
+import { parseRecurrence } from "@/lib/recurrence";
+
+// POST to add a task to a milestone
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string; milestoneId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to add tasks" },
+        { status: 401 }
+      );
+    }
+
+    const { id, milestoneId } = params;
+    const body = await req.json();
+    
+    const validationError = validateTaskInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the milestone
+    const milestone = project.milestones.id(milestoneId);
+    if (!milestone) {
+      return NextResponse.json(
+        { error: "Milestone not found" },
+        { status: 404 }
+      );
+    }
+
+    milestone.tasks.push({
+      name: body.name.trim(),
+      status: 'not_started',
+      notes: body.notes || '',
+      estimateMinutes: body.estimateMinutes ?? null,
+      weight: body.weight ?? null,
+      dueDate: body.dueDate ? new Date(body.dueDate) : null,
+      priority: body.priority || 'medium',
+      recurrence: body.recurrence ? parseRecurrence(body.recurrence) : null
+    });
+
+    // A new open task reopens a completed milestone
+    syncMilestoneStatus(milestone);
+    
+    await project.save();
+
+    return NextResponse.json({
+      task: milestone.tasks[milestone.tasks.length - 1],
+      milestone: {
+        id: milestoneId,
+        status: milestone.status
+      },
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding task:", error);
+    return NextResponse.json(
+      { error: "Failed to add task" },
+      { status: 500 }
+    );
+  }
+}
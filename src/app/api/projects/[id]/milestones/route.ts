@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { syncMilestoneStatus, validateMilestoneInput } from "@/lib/projects";
+import { parseRecurrence } from "@/lib/recurrence";
+
+interface TaskInput {
+  name: string;
+  notes?: string;
+  estimateMinutes?: number | null;
+  weight?: number | null;
+  dueDate?: string | null;
+  priority?: string;
+  recurrence?: unknown;
+}
+
+// POST to add a milestone, optionally with tasks, to a project
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to add milestones" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const body = await req.json();
+    
+    const validationError = validateMilestoneInput(body);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    project.milestones.push({
+      name: body.name.trim(),
+      status: 'not_started',
+      estimateMinutes: body.estimateMinutes ?? null,
+      dueDate: body.dueDate ? new Date(body.dueDate) : null,
+      priority: body.priority || 'medium',
+      tasks: (body.tasks || []).map((task: TaskInput) => ({
+        name: task.name.trim(),
+        status: 'not_started',
+        notes: task.notes || '',
+        estimateMinutes: task.estimateMinutes ?? null,
+        weight: task.weight ?? null,
+        dueDate: task.dueDate ? new Date(task.dueDate) : null,
+        priority: task.priority || 'medium',
+        recurrence: task.recurrence ? parseRecurrence(task.recurrence) : null
+      }))
+    });
+
+    const milestone = project.milestones[project.milestones.length - 1];
+    syncMilestoneStatus(milestone);
+    
+    await project.save();
+
+    return NextResponse.json({
+      milestone,
+      project: {
+        id: project._id,
+        progress: project.progress
+      }
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Error adding milestone:", error);
+    return NextResponse.json(
+      { error: "Failed to add milestone" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+
+interface NoteEntry {
+  sessionId?: unknown;
+  note: string;
+  createdAt: Date;
+}
+
+// GET the session notes of a project, or of one task with ?taskId, newest first
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access this project" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const taskId = new URL(req.url).searchParams.get("taskId");
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    }).select('milestones');
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    const notes = [];
+    for (const milestone of project.milestones) {
+      for (const task of milestone.tasks) {
+        if (taskId && String(task._id) !== taskId) continue;
+
+        notes.push(...task.noteHistory.map((entry: NoteEntry) => ({
+          milestoneId: milestone._id,
+          milestoneName: milestone.name,
+          taskId: task._id,
+          taskName: task.name,
+          sessionId: entry.sessionId ?? null,
+          note: entry.note,
+          createdAt: entry.createdAt
+        })));
+      }
+    }
+
+    notes.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return NextResponse.json({ notes });
+  } catch (error) {
+    console.error("Error fetching notes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+
+// Focus interval overrides must be a positive number of minutes, or null to use the user's default
+const isValidOverride = (value: unknown) =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 1);
+
+// PUT to update a project's settings
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update project settings" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const body = await req.json();
+
+    const focusMode = body.focusMode;
+    if (
+      focusMode !== undefined &&
+      (typeof focusMode !== 'object' || focusMode === null ||
+        (focusMode.workMinutes !== undefined && !isValidOverride(focusMode.workMinutes)) ||
+        (focusMode.breakMinutes !== undefined && !isValidOverride(focusMode.breakMinutes)))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid focus mode settings" },
+        { status: 400 }
+      );
+    }
+    
+    if (body.progressMode !== undefined && !['count', 'weighted', 'milestone'].includes(body.progressMode)) {
+      return NextResponse.json(
+        { error: "Invalid progress mode" },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.autoStart !== undefined) {
+      project.settings.autoStart = Boolean(body.autoStart);
+    }
+
+    if (body.notifications !== undefined) {
+      project.settings.notifications = Boolean(body.notifications);
+    }
+
+    if (body.progressMode !== undefined) {
+      project.settings.progressMode = body.progressMode;
+    }
+
+    if (focusMode?.workMinutes !== undefined) {
+      project.settings.focusMode.workMinutes = focusMode.workMinutes;
+    }
+
+    if (focusMode?.breakMinutes !== undefined) {
+      project.settings.focusMode.breakMinutes = focusMode.breakMinutes;
+    }
+
+    await project.save();
+
+    return NextResponse.json({
+      project: {
+        id: project._id,
+        progress: project.progress,
+        settings: project.settings
+      }
+    });
+  } catch (error) {
+    console.error("Error updating project settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update project settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { buildTimeRollup } from "@/lib/time-rollup";
+
+// GET tracked time per task, milestone and project
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access this project" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    const project = await Project.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    const sessions = await Session.find({
+      userId: session.user.id,
+      projectId: project._id
+    }).select('milestoneId taskId startTime endTime segments');
+
+    return NextResponse.json(buildTimeRollup(project, sessions));
+  } catch (error) {
+    console.error("Error fetching project time:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch project time" },
+      { status: 500 }
+    );
+  }
+}
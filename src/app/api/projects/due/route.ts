@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import { collectDueItems } from "@/lib/due-items";
+import { isValidTimeZone } from "@/lib/dates";
+
+// GET overdue and soon-due milestones and tasks across the user's active
+// projects, with days counted in ?timezone, UTC by default
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access due items" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = searchParams.has('days') ? Number(searchParams.get('days')) : 7;
+    const timeZone = searchParams.get('timezone') || 'UTC';
+
+    if (!Number.isFinite(days) || days < 0) {
+      return NextResponse.json(
+        { error: "Days must be a non-negative number" },
+        { status: 400 }
+      );
+    }
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: "Unknown timezone" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const now = new Date();
+    // A day past the horizon, as the user's day may run ahead of UTC
+    const horizon = new Date(now.getTime() + (days + 1) * 24 * 60 * 60 * 1000);
+
+    // Only load projects with something due before the horizon
+    const projects = await Project.find({
+      userId: session.user.id,
+      status: 'active',
+      $or: [
+        { 'milestones.dueDate': { $lte: horizon } },
+        { 'milestones.tasks.dueDate': { $lte: horizon } }
+      ]
+    }).select('name milestones._id milestones.name milestones.status milestones.dueDate milestones.priority milestones.tasks._id milestones.tasks.name milestones.tasks.status milestones.tasks.dueDate milestones.tasks.priority');
+
+    const items = collectDueItems(projects, now, days, timeZone);
+
+    return NextResponse.json({
+      overdue: items.filter(item => item.overdue),
+      dueSoon: items.filter(item => !item.overdue)
+    });
+  } catch (error) {
+    console.error("Error fetching due items:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch due items" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectToDatabase from "@/lib/db";
 import Project from "@/models/Project";
+import { applyAutoArchive } from "@/lib/archive";
+import type { Recurrence } from "@/lib/recurrence";
 import mongoose from "mongoose";
 
 // GET projects
@@ -45,6 +47,9 @@ export async function GET(
       const status = url.searchParams.get('status');
       const category = url.searchParams.get('category');
       
+      // Archive stale completed projects before listing them
+      await applyAutoArchive(session.user.id);
+      
       // Build query
       const query: { userId: string; status?: string; category?: string } = { userId: session.user.id };
       
@@ -202,15 +207,33 @@ export async function POST(req: NextRequest) {
     const userId = new mongoose.Types.ObjectId(session.user.id);
 
     // Define types for milestone and task
+    interface TaskInput {
+      name: string;
+      status?: string;
+      notes?: string;
+      estimateMinutes?: number | null;
+      weight?: number | null;
+      priority?: string;
+      dueDate?: string | null;
+      checklist?: { text: string; done?: boolean }[];
+      recurrence?: Recurrence | null;
+    }
+
     interface MilestoneInput {
       name: string;
-      tasks?: (string | { name: string; status?: string; notes?: string })[];
+      estimateMinutes?: number | null;
+      priority?: string;
+      dueDate?: string | null;
+      tasks?: (string | TaskInput)[];
     }
 
     // Transform milestones to match the schema
     const transformedMilestones = body.milestones?.map((milestone: MilestoneInput) => ({
       name: milestone.name,
       status: 'not_started',
+      estimateMinutes: milestone.estimateMinutes ?? null,
+      priority: milestone.priority || 'medium',
+      dueDate: milestone.dueDate ? new Date(milestone.dueDate) : null,
       tasks: milestone.tasks?.map((task) => {
         if (typeof task === 'string') {
           return {
@@ -222,7 +245,13 @@ export async function POST(req: NextRequest) {
           return {
             name: task.name,
             status: task.status || 'not_started',
-            notes: task.notes || ''
+            notes: task.notes || '',
+            estimateMinutes: task.estimateMinutes ?? null,
+            weight: task.weight ?? null,
+            priority: task.priority || 'medium',
+            dueDate: task.dueDate ? new Date(task.dueDate) : null,
+            checklist: task.checklist || [],
+            recurrence: task.recurrence ?? null
           };
         }
       }) || []
@@ -240,7 +269,12 @@ export async function POST(req: NextRequest) {
       milestones: transformedMilestones,
       settings: {
         autoStart: body.settings?.autoStart || false,
-        notifications: body.settings?.notifications || true
+        notifications: body.settings?.notifications || true,
+        progressMode: body.settings?.progressMode || 'count',
+        focusMode: {
+          workMinutes: body.settings?.focusMode?.workMinutes || null,
+          breakMinutes: body.settings?.focusMode?.breakMinutes || null
+        }
       }
     });
 
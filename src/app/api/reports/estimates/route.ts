@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { buildTimeRollup } from "@/lib/time-rollup";
+import { buildEstimateReport, summarizeByCategory } from "@/lib/estimate-report";
+
+// GET estimated vs tracked time per task, milestone, project and category
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access reports" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const projectId = searchParams.get('projectId');
+    const category = searchParams.get('category');
+
+    await connectToDatabase();
+
+    const query: Record<string, unknown> = { userId: session.user.id };
+    if (projectId) query._id = projectId;
+    if (category) query.category = category;
+
+    const projects = await Project.find(query).sort({ updatedAt: -1 });
+
+    const sessions = await Session.find({
+      userId: session.user.id,
+      projectId: { $in: projects.map(project => project._id) }
+    }).select('projectId milestoneId taskId startTime endTime segments');
+
+    const reports = projects.map(project => buildEstimateReport(
+      project,
+      buildTimeRollup(
+        project,
+        sessions.filter(s => String(s.projectId) === String(project._id))
+      )
+    ));
+
+    return NextResponse.json({
+      projects: reports,
+      categories: summarizeByCategory(reports)
+    });
+  } catch (error) {
+    console.error("Error building estimate report:", error);
+    return NextResponse.json(
+      { error: "Failed to build estimate report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { collectProjectResults, parseSearchTerms, toSessionResult } from "@/lib/search";
+import type { SearchableProject, SearchableSession, SearchResult } from "@/lib/search";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// GET projects, milestones, tasks and notes matching a search query
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to search" },
+        { status: 401 }
+      );
+    }
+
+    const url = new URL(req.url);
+    const query = url.searchParams.get("q")?.trim() || '';
+    const includeArchived = url.searchParams.get("includeArchived") === "true";
+    const limitParam = parseInt(url.searchParams.get("limit") || '');
+    const limit = Number.isInteger(limitParam) && limitParam > 0
+      ? Math.min(limitParam, MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    if (query.length < 2) {
+      return NextResponse.json(
+        { error: "Search query must be at least 2 characters" },
+        { status: 400 }
+      );
+    }
+
+    const terms = parseSearchTerms(query);
+    
+    await connectToDatabase();
+
+    const textQuery = { userId: session.user.id, $text: { $search: query } };
+    const byScore = { score: { $meta: 'textScore' } };
+    // Archived projects, and their sessions, are left out unless asked for
+    const statusFilter = includeArchived ? {} : { status: { $ne: 'archived' } };
+
+    const projects = await Project.find({ ...textQuery, ...statusFilter }, byScore)
+      .select('name description milestones')
+      .sort(byScore)
+      .limit(limit)
+      .lean<(SearchableProject & { score: number })[]>();
+
+    const sessions = await Session.find(textQuery, byScore)
+      .select('projectId milestoneId taskId note activities')
+      .sort(byScore)
+      .limit(limit)
+      .lean<(SearchableSession & { score: number })[]>();
+
+    // Sessions may belong to projects that did not match themselves
+    const foundIds = new Set(projects.map(project => String(project._id)));
+    const otherIds = [...new Set(sessions.map(s => String(s.projectId)))]
+      .filter(id => !foundIds.has(id));
+    const sessionProjects = otherIds.length > 0
+      ? await Project.find({ _id: { $in: otherIds }, userId: session.user.id, ...statusFilter })
+          .select('name description milestones')
+          .lean<SearchableProject[]>()
+      : [];
+    const projectsById = new Map(
+      [...projects, ...sessionProjects].map(project => [String(project._id), project])
+    );
+
+    const sessionResults = sessions
+      .map(s =>
+        toSessionResult(s, projectsById.get(String(s.projectId)), terms, s.score)
+      )
+      .filter((result): result is SearchResult => result !== null);
+
+    // Task note histories repeat session notes, so found sessions are listed once
+    const foundSessionIds = new Set(sessionResults.map(result => result.sessionId!));
+
+    const results: SearchResult[] = [
+      ...projects.flatMap(project =>
+        collectProjectResults(project, terms, project.score, foundSessionIds)
+      ),
+      ...sessionResults
+    ];
+
+    results.sort((a, b) => b.score - a.score);
+
+    return NextResponse.json({
+      query,
+      results: results.slice(0, limit)
+    });
+  } catch (error) {
+    console.error("Error searching:", error);
+    return NextResponse.json(
+      { error: "Failed to search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session from "@/models/Session";
+import { applyIdleTimeouts } from "@/lib/sessions";
+
+// POST a heartbeat to keep an active session from being treated as idle
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    // A heartbeat arriving after the idle threshold must not revive the session
+    await applyIdleTimeouts(session.user.id);
+
+    const sessionData = await Session.findOneAndUpdate(
+      { _id: id, userId: session.user.id, status: 'active' },
+      { lastHeartbeatAt: new Date() },
+      { new: true }
+    ) || await Session.findOne({ _id: id, userId: session.user.id });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // The current state tells the client if the session was paused or ended for idling
+    return NextResponse.json(sessionData);
+  } catch (error) {
+    console.error("Error recording session heartbeat:", error);
+    return NextResponse.json(
+      { error: "Failed to record session heartbeat" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session from "@/models/Session";
+import { applyIdleTimeouts, pauseSession } from "@/lib/sessions";
+
+// POST to complete the current focus interval and start its break
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    // Trim idle time first, so the gap before the interval is not counted as active
+    await applyIdleTimeouts(session.user.id);
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!sessionData.focus) {
+      return NextResponse.json(
+        { error: "Focus mode is not enabled for this session" },
+        { status: 400 }
+      );
+    }
+
+    if (sessionData.status !== 'active') {
+      return NextResponse.json(
+        { error: "Only active sessions can complete an interval" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    sessionData.focus.completedIntervals += 1;
+    sessionData.activities.push({
+      timestamp: now,
+      action: 'interval_completed',
+      metadata: { interval: sessionData.focus.completedIntervals }
+    });
+
+    // Breaks are not tracked time
+    pauseSession(sessionData, now, { reason: 'focus_break' });
+    
+    await sessionData.save();
+
+    return NextResponse.json(sessionData);
+  } catch (error) {
+    console.error("Error completing focus interval:", error);
+    return NextResponse.json(
+      { error: "Failed to complete focus interval" },
+      { status: 500 }
+    );
+  }
+}
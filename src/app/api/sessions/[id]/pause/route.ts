@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session from "@/models/Session";
+import { applyIdleTimeouts, pauseSession } from "@/lib/sessions";
+
+// POST to pause an active session
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to pause this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    // Trim idle time first, so the gap before pausing is not counted as active
+    await applyIdleTimeouts(session.user.id);
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (sessionData.status !== 'active') {
+      return NextResponse.json(
+        { error: "Only active sessions can be paused" },
+        { status: 400 }
+      );
+    }
+
+    pauseSession(sessionData, new Date());
+    
+    await sessionData.save();
+
+    return NextResponse.json(sessionData);
+  } catch (error) {
+    console.error("Error pausing session:", error);
+    return NextResponse.json(
+      { error: "Failed to pause session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session from "@/models/Session";
+
+// GET the restore manifest for a session, built from the latest snapshot
+// saved on an earlier session for the same task
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to restore a session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const previousSession = await Session.findOne({
+      _id: { $ne: sessionData._id },
+      userId: session.user.id,
+      projectId: sessionData.projectId,
+      milestoneId: sessionData.milestoneId,
+      taskId: sessionData.taskId,
+      status: 'completed',
+      snapshot: { $exists: true }
+    }).sort({ endTime: -1 });
+
+    if (!previousSession) {
+      return NextResponse.json({
+        sessionId: sessionData._id,
+        available: false,
+        snapshot: null
+      });
+    }
+
+    const { snapshot } = previousSession;
+
+    // Local snapshots live on the device that captured them; the client
+    // looks them up by the source session ID
+    return NextResponse.json({
+      sessionId: sessionData._id,
+      available: true,
+      sourceSessionId: previousSession._id,
+      sourceEndTime: previousSession.endTime,
+      location: snapshot.location,
+      capturedAt: snapshot.capturedAt,
+      snapshot: snapshot.location === 'cloud' ? {
+        apps: snapshot.apps,
+        browserTabs: snapshot.browserTabs,
+        workingDirectory: snapshot.workingDirectory,
+        context: snapshot.context
+      } : null
+    });
+  } catch (error) {
+    console.error("Error building restore manifest:", error);
+    return NextResponse.json(
+      { error: "Failed to build restore manifest" },
+      { status: 500 }
+    );
+  }
+}
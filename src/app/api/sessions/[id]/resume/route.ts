@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session from "@/models/Session";
+import { closeOpenSegment, getActiveDuration } from "@/lib/session-time";
+
+// POST to resume a paused session
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to resume this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (sessionData.status !== 'paused') {
+      return NextResponse.json(
+        { error: "Only paused sessions can be resumed" },
+        { status: 400 }
+      );
+    }
+
+    // Close the break and start a new active segment
+    const now = new Date();
+    closeOpenSegment(sessionData.segments, now);
+    sessionData.segments.push({ type: 'active', startTime: now });
+    sessionData.status = 'active';
+    sessionData.lastHeartbeatAt = now;
+    sessionData.duration = getActiveDuration(sessionData, now);
+    sessionData.activities.push({
+      timestamp: now,
+      action: 'resume',
+      metadata: { duration: sessionData.duration }
+    });
+    
+    await sessionData.save();
+
+    return NextResponse.json(sessionData);
+  } catch (error) {
+    console.error("Error resuming session:", error);
+    return NextResponse.json(
+      { error: "Failed to resume session" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,11 @@ import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectToDatabase from "@/lib/db";
 import Session from "@/models/Session";
 import Project from "@/models/Project";
+import User from "@/models/User";
+import { buildSnapshot } from "@/lib/snapshot";
+import { closeOpenSegment, getActiveDuration, retimeSegments } from "@/lib/session-time";
+import { applyIdleTimeouts, findOverlappingSession, parseDate } from "@/lib/sessions";
+import { advanceRecurrence, appendTaskNote, getIncompletePrerequisites, syncMilestoneStatus } from "@/lib/projects";
 
 // GET specific session
 export async function GET(
@@ -63,9 +68,19 @@ export async function PUT(
 
     const id = params.id;
     const body = await req.json();
+
+    if (body.taskStatus && !['not_started', 'in_progress', 'completed'].includes(body.taskStatus)) {
+      return NextResponse.json(
+        { error: "Invalid task status" },
+        { status: 400 }
+      );
+    }
     
     await connectToDatabase();
 
+    // Trim idle time first, so ending keeps the session's idle stop
+    await applyIdleTimeouts(session.user.id);
+
     const sessionData = await Session.findOne({
       _id: id,
       userId: session.user.id,
@@ -78,70 +93,285 @@ export async function PUT(
       );
     }
 
+    if (sessionData.status === 'completed') {
+      return NextResponse.json(
+        { error: "Session has already ended" },
+        { status: 409 }
+      );
+    }
+
+    const taskNote = body.taskNote || body.note;
+    const project = body.taskStatus || taskNote
+      ? await Project.findOne({ _id: sessionData.projectId, userId: session.user.id })
+      : null;
+    const milestone = project?.milestones.id(sessionData.milestoneId);
+    const task = milestone?.tasks.id(sessionData.taskId);
+
+    // The task status follows the same prerequisite rule as the status route,
+    // checked before the session ends so a rejected request changes nothing
+    if (task && body.taskStatus && body.taskStatus !== 'not_started' && !body.force) {
+      const blockedBy = getIncompletePrerequisites(project, task);
+      if (blockedBy.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Task is blocked by incomplete prerequisites",
+            blockedBy: blockedBy.map(t => ({ id: t._id, name: t.name, status: t.status }))
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // End the session
-    sessionData.isActive = false;
+    sessionData.status = 'completed';
     sessionData.endTime = new Date();
+    closeOpenSegment(sessionData.segments, sessionData.endTime);
     
-    // Calculate duration in seconds
-    const durationInSeconds = Math.round(
-      (sessionData.endTime.getTime() - sessionData.startTime.getTime()) / 1000
-    );
-    sessionData.duration = durationInSeconds;
+    // Calculate duration in seconds, leaving out paused time
+    sessionData.duration = getActiveDuration(sessionData);
     
     // Add session note if provided
     if (body.note) {
       sessionData.note = body.note;
+      sessionData.activities.push({
+        timestamp: sessionData.endTime,
+        action: 'note_added',
+        metadata: { note: body.note }
+      });
+    }
+    
+    if (body.taskStatus) {
+      sessionData.activities.push({
+        timestamp: sessionData.endTime,
+        action: 'task_status_changed',
+        metadata: { taskId: sessionData.taskId, status: body.taskStatus }
+      });
     }
     
     // Record end activity
     sessionData.activities.push({
-      timestamp: new Date(),
+      timestamp: sessionData.endTime,
       action: 'end',
-      metadata: body.metadata || {}
+      metadata: { ...body.metadata, duration: sessionData.duration }
     });
     
-    // Add environment snapshot if provided
+    // Add environment snapshot if provided, according to the user's capture settings
     if (body.snapshot) {
-      sessionData.snapshot = body.snapshot;
+      const user = await User.findById(session.user.id).select('settings.sessionCapture');
+      const snapshot = user ? buildSnapshot(body.snapshot, user.settings.sessionCapture) : null;
+      
+      if (snapshot) {
+        sessionData.snapshot = snapshot;
+      }
     }
     
     await sessionData.save();
     
     // Update task with last session information if provided
-    if (body.taskStatus || body.taskNote) {
+    if (task) {
+      if (body.taskStatus) {
+        task.status = body.taskStatus;
+        advanceRecurrence(milestone, task, new Date());
+        syncMilestoneStatus(milestone);
+      }
+      
+      if (taskNote) {
+        appendTaskNote(task, taskNote, sessionData._id, sessionData.endTime);
+      }
+      
+      await project.save();
+    }
+
+    return NextResponse.json(sessionData);
+  } catch (error) {
+    console.error("Error updating session:", error);
+    return NextResponse.json(
+      { error: "Failed to update session" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH to edit a session's times, note or task
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to edit this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const body = await req.json();
+    
+    await connectToDatabase();
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (body.note !== undefined && typeof body.note !== 'string') {
+      return NextResponse.json(
+        { error: "Note must be a string" },
+        { status: 400 }
+      );
+    }
+
+    // Validate new times
+    const startTime = body.startTime !== undefined ? parseDate(body.startTime) : sessionData.startTime;
+    const endTime = body.endTime !== undefined ? parseDate(body.endTime) : sessionData.endTime;
+
+    if (!startTime || (body.endTime !== undefined && !endTime)) {
+      return NextResponse.json(
+        { error: "Invalid start or end time" },
+        { status: 400 }
+      );
+    }
+
+    if (body.endTime !== undefined && sessionData.status !== 'completed') {
+      return NextResponse.json(
+        { error: "End the session before editing its end time" },
+        { status: 400 }
+      );
+    }
+
+    if (endTime && endTime <= startTime) {
+      return NextResponse.json(
+        { error: "End time must be after start time" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    if (startTime > now || (endTime && endTime > now)) {
+      return NextResponse.json(
+        { error: "Session times cannot be in the future" },
+        { status: 400 }
+      );
+    }
+
+    const overlapping = await findOverlappingSession(session.user.id, startTime, endTime || now, id);
+    if (overlapping) {
+      return NextResponse.json(
+        { error: "This session would overlap another session", sessionId: overlapping._id },
+        { status: 409 }
+      );
+    }
+
+    // Move the session to another task in the same project
+    if (body.milestoneId !== undefined || body.taskId !== undefined) {
+      const milestoneId = body.milestoneId ?? sessionData.milestoneId;
+      const taskId = body.taskId ?? sessionData.taskId;
+
       const project = await Project.findOne({
         _id: sessionData.projectId,
         userId: session.user.id
       });
-      
-      if (project) {
-        const milestone = project.milestones.id(sessionData.milestoneId);
-        if (milestone) {
-          const task = milestone.tasks.id(sessionData.taskId);
-          if (task) {
-            if (body.taskStatus) {
-              task.status = body.taskStatus;
-            }
-            
-            if (body.taskNote) {
-              task.lastSession = {
-                timestamp: new Date(),
-                note: body.taskNote
-              };
-            }
-            
-            await project.save();
-          }
-        }
+
+      if (!project?.milestones.id(milestoneId)?.tasks.id(taskId)) {
+        return NextResponse.json(
+          { error: "Task not found" },
+          { status: 404 }
+        );
+      }
+
+      sessionData.milestoneId = milestoneId;
+      sessionData.taskId = taskId;
+    }
+
+    if (body.startTime !== undefined || body.endTime !== undefined) {
+      sessionData.segments = retimeSegments(sessionData.segments, startTime, endTime || undefined);
+      sessionData.startTime = startTime;
+      sessionData.endTime = endTime || undefined;
+      sessionData.duration = getActiveDuration(sessionData);
+    }
+
+    // Edited notes are logged like notes added during the session
+    const note = typeof body.note === 'string' ? body.note.trim() : undefined;
+    const noteChanged = note !== undefined && note !== sessionData.note;
+
+    if (noteChanged) {
+      sessionData.note = note;
+      if (note) {
+        sessionData.activities.push({
+          timestamp: now,
+          action: 'note_added',
+          metadata: { note }
+        });
+      }
+    }
+
+    await sessionData.save();
+
+    // Keep the edited note in the task's note history
+    if (noteChanged && note) {
+      const project = await Project.findOne({ _id: sessionData.projectId, userId: session.user.id });
+      const task = project?.milestones.id(sessionData.milestoneId)?.tasks.id(sessionData.taskId);
+
+      if (task) {
+        appendTaskNote(task, note, sessionData._id, now);
+        await project.save();
       }
     }
 
     return NextResponse.json(sessionData);
   } catch (error) {
-    console.error("Error updating session:", error);
+    console.error("Error editing session:", error);
     return NextResponse.json(
-      { error: "Failed to update session" },
+      { error: "Failed to edit session" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a session
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to delete this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    
+    await connectToDatabase();
+
+    const result = await Session.deleteOne({ _id: id, userId: session.user.id });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting session:", error);
+    return NextResponse.json(
+      { error: "Failed to delete session" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Session, { SessionActivity, SessionDocument } from "@/models/Session";
+import Project from "@/models/Project";
+import { appendTaskNote } from "@/lib/projects";
+
+// Sessions recorded before the activity log existed only have their
+// start/end times and segments, so rebuild the timeline from those
+function deriveActivities(sessionData: SessionDocument): SessionActivity[] {
+  const activities: SessionActivity[] = [
+    { timestamp: sessionData.startTime, action: 'start', metadata: {} }
+  ];
+
+  (sessionData.segments || []).forEach((segment, index) => {
+    if (index === 0) return;
+    activities.push({
+      timestamp: segment.startTime,
+      action: segment.type === 'paused' ? 'pause' : 'resume',
+      metadata: {}
+    });
+  });
+
+  if (sessionData.endTime) {
+    activities.push({
+      timestamp: sessionData.endTime,
+      action: 'end',
+      metadata: sessionData.duration !== undefined ? { duration: sessionData.duration } : {}
+    });
+  }
+
+  return activities;
+}
+
+// GET the activity timeline of a session
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+
+    await connectToDatabase();
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    const activities: SessionActivity[] = sessionData.activities?.length > 0
+      ? [...sessionData.activities].sort(
+          (a: SessionActivity, b: SessionActivity) => a.timestamp.getTime() - b.timestamp.getTime()
+        )
+      : deriveActivities(sessionData);
+
+    return NextResponse.json({
+      session: {
+        _id: sessionData._id,
+        projectId: sessionData.projectId,
+        milestoneId: sessionData.milestoneId,
+        taskId: sessionData.taskId,
+        status: sessionData.status,
+        startTime: sessionData.startTime,
+        endTime: sessionData.endTime,
+        duration: sessionData.duration,
+        note: sessionData.note
+      },
+      activities
+    });
+  } catch (error) {
+    console.error("Error fetching session timeline:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch session timeline" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to add a note to an open session's timeline
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update this session" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const body = await req.json();
+
+    if (!body.note || typeof body.note !== 'string' || !body.note.trim()) {
+      return NextResponse.json(
+        { error: "Note is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const sessionData = await Session.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!sessionData) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    if (sessionData.status === 'completed') {
+      return NextResponse.json(
+        { error: "Notes can only be added to an open session" },
+        { status: 400 }
+      );
+    }
+
+    const activity: SessionActivity = {
+      timestamp: new Date(),
+      action: 'note_added',
+      metadata: { note: body.note.trim() }
+    };
+    sessionData.activities.push(activity);
+
+    await sessionData.save();
+
+    // Keep the note in the task's note history
+    const project = await Project.findOne({ _id: sessionData.projectId, userId: session.user.id });
+    const task = project?.milestones.id(sessionData.milestoneId)?.tasks.id(sessionData.taskId);
+
+    if (task) {
+      appendTaskNote(task, body.note.trim(), sessionData._id, activity.timestamp);
+      await project.save();
+    }
+
+    return NextResponse.json(activity, { status: 201 });
+  } catch (error) {
+    console.error("Error adding session note:", error);
+    return NextResponse.json(
+      { error: "Failed to add session note" },
+      { status: 500 }
+    );
+  }
+}
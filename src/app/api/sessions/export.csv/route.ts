@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Session from "@/models/Session";
+import { buildTimesheetCsv, type SubtotalPeriod } from "@/lib/timesheet";
+import { isValidTimeZone, localDay } from "@/lib/dates";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+// GET a CSV timesheet of completed sessions
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to export sessions" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const projectId = searchParams.get('projectId');
+    const category = searchParams.get('category');
+    const timeZone = searchParams.get('timezone') || 'UTC';
+    const subtotals = (searchParams.get('subtotals') || '').split(',').filter(Boolean);
+
+    if ((from && !isDay(from)) || (to && !isDay(to))) {
+      return NextResponse.json(
+        { error: "from and to must be dates in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: "Unknown timezone" },
+        { status: 400 }
+      );
+    }
+    if (subtotals.some(period => period !== 'daily' && period !== 'weekly')) {
+      return NextResponse.json(
+        { error: "subtotals must be daily, weekly or both" },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const projectQuery: Record<string, unknown> = { userId: session.user.id };
+    if (projectId) projectQuery._id = projectId;
+    if (category) projectQuery.category = category;
+
+    const projects = await Project.find(projectQuery).select('name milestones._id milestones.name milestones.tasks._id milestones.tasks.name');
+
+    // Days are split in the requested time zone, so fetch a day either side
+    // of the range and keep the sessions starting on a day within it
+    const startTime: Record<string, Date> = {};
+    if (from) startTime.$gte = new Date(Date.parse(from) - DAY_MS);
+    if (to) startTime.$lt = new Date(Date.parse(to) + 2 * DAY_MS);
+
+    const sessions = await Session.find({
+      userId: session.user.id,
+      projectId: { $in: projects.map(project => project._id) },
+      status: 'completed',
+      ...(from || to ? { startTime } : {})
+    }).select('projectId milestoneId taskId startTime endTime segments duration note');
+
+    const inRange = sessions.filter(sessionData => {
+      const day = localDay(sessionData.startTime, timeZone);
+      return (!from || day >= from) && (!to || day <= to);
+    });
+
+    const csv = buildTimesheetCsv(inRange, projects, timeZone, subtotals as SubtotalPeriod[]);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="timesheet${from ? `-${from}` : ''}${to ? `-${to}` : ''}.csv"`
+      }
+    });
+  } catch (error) {
+    console.error("Error exporting sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to export sessions" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,12 +4,17 @@ import { authOptions } from "@/app/api/auth/[...nextauth]/route";
 import connectToDatabase from "@/lib/db";
 import Session from "@/models/Session";
 import Project from "@/models/Project";
+import User from "@/models/User";
 import { Types } from 'mongoose';
+import { closeOpenSegment, getActiveDuration } from "@/lib/session-time";
+import { applyIdleTimeouts, findOverlappingSession, parseDate } from "@/lib/sessions";
+import { appendTaskNote } from "@/lib/projects";
+import { buildSnapshot } from "@/lib/snapshot";
 
 interface SessionQuery {
   userId: Types.ObjectId;
   projectId?: Types.ObjectId;
-  status?: 'active' | 'completed';
+  status?: 'active' | 'paused' | 'completed' | { $in: string[] };
 }
 
 // GET all sessions for the authenticated user
@@ -30,14 +35,18 @@ export async function GET(req: NextRequest) {
     
     await connectToDatabase();
     
+    // Stop sessions that went idle before reporting them
+    await applyIdleTimeouts(session.user.id);
+    
     const query: SessionQuery = { userId: new Types.ObjectId(session.user.id) };
     
     if (projectId) {
       query.projectId = new Types.ObjectId(projectId);
     }
     
+    // Paused sessions are still open, so they count as active here
     if (active) {
-      query.status = 'active';
+      query.status = { $in: ['active', 'paused'] };
     }
 
     const sessions = await Session.find(query).sort({ startTime: -1 });
@@ -88,25 +97,119 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Check if there's already an active session
+    // Manual time entries are created already completed
+    if (body.startTime !== undefined || body.endTime !== undefined) {
+      const task = project.milestones.id(body.milestoneId)?.tasks.id(body.taskId);
+      if (!task) {
+        return NextResponse.json(
+          { error: "Task not found" },
+          { status: 404 }
+        );
+      }
+
+      const startTime = parseDate(body.startTime);
+      const endTime = parseDate(body.endTime);
+
+      if (!startTime || !endTime) {
+        return NextResponse.json(
+          { error: "Valid start and end times are required for a manual entry" },
+          { status: 400 }
+        );
+      }
+
+      if (endTime <= startTime) {
+        return NextResponse.json(
+          { error: "End time must be after start time" },
+          { status: 400 }
+        );
+      }
+
+      if (endTime > new Date()) {
+        return NextResponse.json(
+          { error: "Manual entries cannot end in the future" },
+          { status: 400 }
+        );
+      }
+
+      const overlapping = await findOverlappingSession(session.user.id, startTime, endTime);
+      if (overlapping) {
+        return NextResponse.json(
+          { error: "This entry overlaps another session", sessionId: overlapping._id },
+          { status: 409 }
+        );
+      }
+
+      const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+      const note = typeof body.note === 'string' ? body.note.trim() : '';
+      const manualSession = await Session.create({
+        userId: session.user.id,
+        projectId: body.projectId,
+        milestoneId: body.milestoneId,
+        taskId: body.taskId,
+        startTime,
+        endTime,
+        status: 'completed',
+        segments: [{ type: 'active', startTime, endTime }],
+        duration,
+        note,
+        activities: [
+          { timestamp: startTime, action: 'start', metadata: { manual: true } },
+          ...(note ? [{ timestamp: endTime, action: 'note_added', metadata: { note } }] : []),
+          { timestamp: endTime, action: 'end', metadata: { manual: true, duration } }
+        ]
+      });
+
+      // Keep the note in the task's note history
+      if (note) {
+        appendTaskNote(task, note, manualSession._id, endTime);
+        await project.save();
+      }
+
+      return NextResponse.json(manualSession, { status: 201 });
+    }
+
+    // An abandoned session should not block starting a new one
+    await applyIdleTimeouts(session.user.id);
+
+    // Check if there's already an active or paused session
     const activeSession = await Session.findOne({
       userId: session.user.id,
-      status: 'active'
+      status: { $in: ['active', 'paused'] }
     });
 
     if (activeSession) {
       return NextResponse.json({ error: 'You already have an active session' }, { status: 400 });
     }
 
+    // Focus interval lengths: project overrides win over the user's defaults
+    let focus;
+    if (body.focusMode) {
+      const user = await User.findById(session.user.id).select('settings.focusMode');
+      focus = {
+        workMinutes: project.settings?.focusMode?.workMinutes || user?.settings?.focusMode?.workMinutes || 25,
+        breakMinutes: project.settings?.focusMode?.breakMinutes || user?.settings?.focusMode?.breakMinutes || 5,
+        completedIntervals: 0
+      };
+    }
+
     // Create the session
+    const startTime = new Date();
     const newSession = await Session.create({
       userId: session.user.id,
       projectId: body.projectId,
       milestoneId: body.milestoneId,
       taskId: body.taskId,
-      startTime: new Date(),
+      startTime,
       status: 'active',
-      note: ''
+      segments: [{ type: 'active', startTime }],
+      lastHeartbeatAt: startTime,
+      focus,
+      note: '',
+      activities: [{
+        timestamp: startTime,
+        action: 'start',
+        metadata: { milestoneId: body.milestoneId, taskId: body.taskId }
+      }]
     });
 
     return NextResponse.json(newSession);
@@ -127,7 +230,7 @@ export async function PUT(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { sessionId, note } = body;
+    const { sessionId, note, snapshot } = body;
 
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
@@ -135,20 +238,61 @@ export async function PUT(req: NextRequest) {
 
     await connectToDatabase();
 
-    const updatedSession = await Session.findOneAndUpdate(
-      { _id: new Types.ObjectId(sessionId), userId: new Types.ObjectId(session.user.id) },
-      {
-        status: 'completed',
-        endTime: new Date(),
-        note: note || ''
-      },
-      { new: true }
-    );
+    // Trim idle time first, so ending keeps the session's idle stop
+    await applyIdleTimeouts(session.user.id);
+
+    const updatedSession = await Session.findOne({
+      _id: new Types.ObjectId(sessionId),
+      userId: new Types.ObjectId(session.user.id)
+    });
 
     if (!updatedSession) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 });
     }
 
+    if (updatedSession.status === 'completed') {
+      return NextResponse.json({ error: 'Session has already ended' }, { status: 409 });
+    }
+
+    const endTime = new Date();
+    closeOpenSegment(updatedSession.segments, endTime);
+    updatedSession.status = 'completed';
+    updatedSession.endTime = endTime;
+    updatedSession.duration = getActiveDuration(updatedSession);
+    updatedSession.note = note || '';
+
+    if (note) {
+      updatedSession.activities.push({ timestamp: endTime, action: 'note_added', metadata: { note } });
+    }
+    updatedSession.activities.push({
+      timestamp: endTime,
+      action: 'end',
+      metadata: { duration: updatedSession.duration }
+    });
+
+    // Add environment snapshot if provided, according to the user's capture settings
+    if (snapshot) {
+      const user = await User.findById(session.user.id).select('settings.sessionCapture');
+      const captured = user ? buildSnapshot(snapshot, user.settings.sessionCapture) : null;
+
+      if (captured) {
+        updatedSession.snapshot = captured;
+      }
+    }
+
+    await updatedSession.save();
+
+    // Keep the note in the task's note history
+    if (note) {
+      const project = await Project.findOne({ _id: updatedSession.projectId, userId: session.user.id });
+      const task = project?.milestones.id(updatedSession.milestoneId)?.tasks.id(updatedSession.taskId);
+
+      if (task) {
+        appendTaskNote(task, note, updatedSession._id, endTime);
+        await project.save();
+      }
+    }
+
     return NextResponse.json(updatedSession);
   } catch (error) {
     console.error('Error updating session:', error);
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Template from "@/models/Template";
+import { BUILT_IN_PREFIX, BUILT_IN_TEMPLATES, validateTemplateInput } from "@/lib/templates";
+
+// GET a single template
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access templates" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+
+    if (id.startsWith(BUILT_IN_PREFIX)) {
+      const builtIn = BUILT_IN_TEMPLATES.find(template => template._id === id);
+      return builtIn
+        ? NextResponse.json(builtIn)
+        : NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    
+    await connectToDatabase();
+
+    const template = await Template.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("Error fetching template:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch template" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH to edit a template
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update templates" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+    const body = await req.json();
+
+    if (id.startsWith(BUILT_IN_PREFIX)) {
+      return NextResponse.json(
+        { error: "Built-in templates cannot be changed" },
+        { status: 403 }
+      );
+    }
+
+    const validationError = validateTemplateInput(body, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const template = await Template.findOne({
+      _id: id,
+      userId: session.user.id,
+    });
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    for (const field of ['name', 'description', 'category', 'deadlineOffsetDays', 'milestones']) {
+      if (body[field] !== undefined) {
+        template[field] = body[field];
+      }
+    }
+
+    await template.save();
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error("Error updating template:", error);
+    return NextResponse.json(
+      { error: "Failed to update template" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a template
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to delete templates" },
+        { status: 401 }
+      );
+    }
+
+    const id = params.id;
+
+    if (id.startsWith(BUILT_IN_PREFIX)) {
+      return NextResponse.json(
+        { error: "Built-in templates cannot be deleted" },
+        { status: 403 }
+      );
+    }
+    
+    await connectToDatabase();
+
+    const result = await Template.deleteOne({ _id: id, userId: session.user.id });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import Project from "@/models/Project";
+import Template from "@/models/Template";
+import { BUILT_IN_TEMPLATES, templateFromProject, validateTemplateInput } from "@/lib/templates";
+
+// GET the built-in templates and the user's own, optionally for one category
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access templates" },
+        { status: 401 }
+      );
+    }
+
+    const category = new URL(req.url).searchParams.get("category");
+    
+    await connectToDatabase();
+
+    const query: { userId: string; category?: string } = { userId: session.user.id };
+    if (category) {
+      query.category = category;
+    }
+
+    const templates = await Template.find(query).sort({ updatedAt: -1 });
+    const builtIns = category
+      ? BUILT_IN_TEMPLATES.filter(template => template.category === category)
+      : BUILT_IN_TEMPLATES;
+
+    return NextResponse.json({ templates: [...templates, ...builtIns] });
+  } catch (error) {
+    console.error("Error fetching templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to create a template, either from an existing project or from the given structure
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to create a template" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    
+    await connectToDatabase();
+
+    let structure = body;
+
+    if (body.projectId) {
+      const project = await Project.findOne({
+        _id: body.projectId,
+        userId: session.user.id,
+      });
+
+      if (!project) {
+        return NextResponse.json(
+          { error: "Project not found" },
+          { status: 404 }
+        );
+      }
+
+      structure = templateFromProject(project, body.name);
+    }
+
+    const validationError = validateTemplateInput(structure);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const template = await Template.create({
+      userId: session.user.id,
+      name: structure.name,
+      description: structure.description || '',
+      category: structure.category || 'other',
+      deadlineOffsetDays: structure.deadlineOffsetDays ?? null,
+      milestones: structure.milestones
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error creating template:", error);
+    return NextResponse.json(
+      { error: "Failed to create template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { randomBytes } from "crypto";
+import { authOptions } from "@/app/api/auth/[...nextauth]/route";
+import connectToDatabase from "@/lib/db";
+import User from "@/models/User";
+
+// GET the user's calendar feed token, or null while the feed is disabled
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to access your calendar feed" },
+        { status: 401 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findById(session.user.id).select('calendarToken');
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ token: user.calendarToken || null });
+  } catch (error) {
+    console.error("Error fetching calendar token:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar token" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST to create a new calendar feed token, invalidating the old feed URL
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update your calendar feed" },
+        { status: 401 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findByIdAndUpdate(
+      session.user.id,
+      { calendarToken: randomBytes(24).toString('hex') },
+      { new: true }
+    ).select('calendarToken');
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ token: user.calendarToken });
+  } catch (error) {
+    console.error("Error regenerating calendar token:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate calendar token" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE the calendar feed token, disabling the feed
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "You must be signed in to update your calendar feed" },
+        { status: 401 }
+      );
+    }
+
+    await connectToDatabase();
+
+    await User.updateOne({ _id: session.user.id }, { calendarToken: null });
+
+    return NextResponse.json({ token: null });
+  } catch (error) {
+    console.error("Error disabling calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to disable calendar feed" },
+      { status: 500 }
+    );
+  }
+}
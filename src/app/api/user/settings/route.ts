@@ -106,6 +106,43 @@ export async function PUT(req: NextRequest) {
           user.settings.sessionCapture.saveLocation = body.settings.sessionCapture.saveLocation;
         }
       }
+      
+      // Focus mode defaults
+      if (body.settings.focusMode) {
+        if (body.settings.focusMode.workMinutes !== undefined) {
+          user.settings.focusMode.workMinutes = body.settings.focusMode.workMinutes;
+        }
+        
+        if (body.settings.focusMode.breakMinutes !== undefined) {
+          user.settings.focusMode.breakMinutes = body.settings.focusMode.breakMinutes;
+        }
+      }
+      
+      // Idle detection settings
+      if (body.settings.idleDetection) {
+        if (body.settings.idleDetection.enabled !== undefined) {
+          user.settings.idleDetection.enabled = body.settings.idleDetection.enabled;
+        }
+        
+        if (body.settings.idleDetection.thresholdMinutes !== undefined) {
+          user.settings.idleDetection.thresholdMinutes = body.settings.idleDetection.thresholdMinutes;
+        }
+        
+        if (body.settings.idleDetection.action !== undefined) {
+          user.settings.idleDetection.action = body.settings.idleDetection.action;
+        }
+      }
+      
+      // Auto-archive settings
+      if (body.settings.autoArchive) {
+        if (body.settings.autoArchive.enabled !== undefined) {
+          user.settings.autoArchive.enabled = body.settings.autoArchive.enabled;
+        }
+        
+        if (body.settings.autoArchive.days !== undefined) {
+          user.settings.autoArchive.days = body.settings.autoArchive.days;
+        }
+      }
     }
 
     await user.save();
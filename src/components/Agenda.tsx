@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Sun, Play, AlertTriangle, Clock, History } from 'lucide-react';
+
+interface AgendaItem {
+  projectId: string;
+  projectName: string;
+  milestoneId: string;
+  milestoneName: string;
+  taskId: string;
+  name: string;
+  priority: 'low' | 'medium' | 'high';
+  dueDate: string | null;
+  lastSession: { timestamp: string; note: string } | null;
+  reasons: ('overdue' | 'due_today' | 'in_progress' | 'recent')[];
+}
+
+const REASON_BADGES = {
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  due_today: { label: 'Due today', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  in_progress: { label: 'In progress', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  recent: { label: 'Worked on recently', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' }
+};
+
+const REASON_ICONS = {
+  overdue: AlertTriangle,
+  due_today: Clock,
+  in_progress: Play,
+  recent: History
+};
+
+export default function Agenda() {
+  const router = useRouter();
+  const [items, setItems] = useState<AgendaItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [startingTask, setStartingTask] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the agenda on mount
+  useEffect(() => {
+    const fetchAgenda = async () => {
+      try {
+        // Due today and overdue follow the browser's day, not the server's
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const response = await fetch(`/api/agenda?timezone=${encodeURIComponent(timeZone)}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch agenda');
+        }
+
+        const data = await response.json();
+        setItems(data.items);
+      } catch (err) {
+        console.error('Error fetching agenda:', err);
+        setError('Failed to load today\'s agenda');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAgenda();
+  }, []);
+
+  // Start a session on the task and open its project
+  const startSession = async (item: AgendaItem) => {
+    try {
+      setStartingTask(item.taskId);
+      setError(null);
+
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId: item.projectId,
+          milestoneId: item.milestoneId,
+          taskId: item.taskId
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to start session');
+      }
+
+      router.push(`/projects/${item.projectId}?milestoneId=${item.milestoneId}&taskId=${item.taskId}`);
+    } catch (err) {
+      console.error('Error starting session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start session');
+      setStartingTask(null);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-100 dark:border-gray-700 p-4">
+      <h2 className="font-semibold text-gray-800 dark:text-white flex items-center gap-2 mb-3">
+        <Sun className="w-5 h-5 text-amber-500" />
+        Today
+      </h2>
+
+      {error && (
+        <div className="mb-3 p-2 text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Nothing urgent. Pick a project below to keep going.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {items.map(item => (
+            <li key={item.taskId} className="py-2 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-gray-800 dark:text-gray-200">{item.name}</span>
+                  {item.priority === 'high' && (
+                    <span className="text-xs font-semibold uppercase text-red-600 dark:text-red-400">High</span>
+                  )}
+                  {item.reasons.map(reason => {
+                    const Icon = REASON_ICONS[reason];
+                    return (
+                      <span key={reason} className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${REASON_BADGES[reason].className}`}>
+                        <Icon className="w-3 h-3" />
+                        {REASON_BADGES[reason].label}
+                      </span>
+                    );
+                  })}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  <Link href={`/projects/${item.projectId}`} className="hover:underline">{item.projectName}</Link>
+                  {' · '}{item.milestoneName}
+                  {item.dueDate && (
+                    <> · Due {new Date(item.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}</>
+                  )}
+                  {item.lastSession?.note && <> · {item.lastSession.note}</>}
+                </div>
+              </div>
+              <button
+                onClick={() => startSession(item)}
+                disabled={startingTask !== null}
+                className="flex-shrink-0 inline-flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                {startingTask === item.taskId ? 'Starting...' : 'Start Session'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { CalendarDays, Check, Copy, RefreshCw } from 'lucide-react';
+
+export default function CalendarFeed() {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the current feed token
+  useEffect(() => {
+    const fetchToken = async () => {
+      try {
+        const response = await fetch('/api/user/calendar-token');
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch calendar feed');
+        }
+
+        const data = await response.json();
+        setToken(data.token);
+      } catch (err) {
+        console.error('Error fetching calendar token:', err);
+        setError('Failed to load calendar feed');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchToken();
+  }, []);
+
+  // Create a new token, or remove it to disable the feed
+  const updateToken = async (method: 'POST' | 'DELETE') => {
+    if (token && !confirm('Calendars subscribed to the current feed URL will stop updating. Continue?')) {
+      return;
+    }
+
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/user/calendar-token', { method });
+
+      if (!response.ok) {
+        throw new Error('Failed to update calendar feed');
+      }
+
+      const data = await response.json();
+      setToken(data.token);
+      setCopied(false);
+    } catch (err) {
+      console.error('Error updating calendar token:', err);
+      setError('Failed to update calendar feed');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const feedUrl = token ? `${window.location.origin}/api/calendar/${token}.ics` : '';
+
+  const copyFeedUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+        <h2 className="text-lg font-medium text-gray-800 dark:text-white flex items-center">
+          <CalendarDays className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+          Calendar Feed
+        </h2>
+      </div>
+      <div className="p-6 space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Subscribe to this URL in your calendar app to see project deadlines, task due dates and completed sessions.
+          Anyone with the URL can read the feed, so keep it private.
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && (
+          token ? (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm font-mono text-gray-700 dark:text-gray-300"
+                />
+                <button
+                  type="button"
+                  onClick={copyFeedUrl}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  title="Copy feed URL"
+                >
+                  {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => updateToken('POST')}
+                  disabled={isUpdating}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 disabled:opacity-50"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  Regenerate URL
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateToken('DELETE')}
+                  disabled={isUpdating}
+                  className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-50"
+                >
+                  Disable feed
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => updateToken('POST')}
+              disabled={isUpdating}
+              className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm disabled:opacity-50"
+            >
+              Enable calendar feed
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
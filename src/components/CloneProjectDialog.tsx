@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+
+interface CloneProjectDialogProps {
+  project: {
+    _id: string;
+    name: string;
+    deadline?: string;
+    milestones: { _id: string; name: string }[];
+  };
+  onClose: () => void;
+  onCloned: () => void;
+}
+
+export default function CloneProjectDialog({ project, onClose, onCloned }: CloneProjectDialogProps) {
+  const [name, setName] = useState(`${project.name} (copy)`);
+  const [keepStatuses, setKeepStatuses] = useState(false);
+  const [keepNotes, setKeepNotes] = useState(false);
+  const [keepDeadline, setKeepDeadline] = useState(true);
+  const [milestoneIds, setMilestoneIds] = useState(project.milestones.map(m => m._id));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleMilestone = (milestoneId: string) => {
+    setMilestoneIds(milestoneIds.includes(milestoneId)
+      ? milestoneIds.filter(id => id !== milestoneId)
+      : [...milestoneIds, milestoneId]);
+  };
+
+  // Create the copy with the chosen options
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${project._id}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          keepStatuses,
+          keepNotes,
+          keepDeadline,
+          // Leave out the subset when every milestone is cloned
+          milestoneIds: milestoneIds.length < project.milestones.length ? milestoneIds : undefined
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to duplicate project');
+      }
+
+      onCloned();
+    } catch (err) {
+      console.error('Error duplicating project:', err);
+      setError(err instanceof Error ? err.message : 'Failed to duplicate project');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const options = [
+    { label: 'Keep task statuses and checklist progress', checked: keepStatuses, onChange: setKeepStatuses },
+    { label: 'Keep task notes', checked: keepNotes, onChange: setKeepNotes },
+    ...(project.deadline ? [{ label: 'Keep the deadline', checked: keepDeadline, onChange: setKeepDeadline }] : [])
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-lg w-full max-w-md p-6"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-semibold text-gray-800 dark:text-white flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Duplicate Project
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <label htmlFor="cloneName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Name
+        </label>
+        <input
+          id="cloneName"
+          type="text"
+          required
+          className="w-full p-2 mb-4 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+
+        <div className="space-y-2 mb-4">
+          {options.map(option => (
+            <label key={option.label} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={option.checked}
+                onChange={(e) => option.onChange(e.target.checked)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {project.milestones.length > 0 && (
+          <div className="mb-6">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Milestones</span>
+            <div className="max-h-48 overflow-y-auto space-y-1 border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+              {project.milestones.map(milestone => (
+                <label key={milestone._id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={milestoneIds.includes(milestone._id)}
+                    onChange={() => toggleMilestone(milestone._id)}
+                  />
+                  {milestone.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || name.trim() === '' || (project.milestones.length > 0 && milestoneIds.length === 0)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg disabled:opacity-50"
+          >
+            {isSubmitting ? 'Duplicating...' : 'Duplicate'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Database, Download, Upload } from 'lucide-react';
+
+interface ImportReport {
+  mode: 'merge' | 'replace';
+  dryRun: boolean;
+  projects: { imported: number; removed: number };
+  sessions: { imported: number; skipped: number; removed: number };
+  settingsReplaced: boolean;
+  warnings: string[];
+}
+
+export default function DataTransfer() {
+  const [bundle, setBundle] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the chosen bundle; nothing is sent until the dry run
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setError(null);
+    setBundle(file ? await file.text() : null);
+    setFileName(file?.name || '');
+  };
+
+  // Send the bundle, first as a dry run and then for real
+  const runImport = async (dryRun: boolean) => {
+    if (!bundle) return;
+
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/import?mode=${mode}&dryRun=${dryRun}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: bundle,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import data');
+      }
+
+      setReport(data);
+      if (!dryRun) {
+        setBundle(null);
+        setFileName('');
+      }
+    } catch (err) {
+      console.error('Error importing data:', err);
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to import data');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+        <h2 className="text-lg font-medium text-gray-800 dark:text-white flex items-center">
+          <Database className="w-5 h-5 mr-2 text-gray-500 dark:text-gray-400" />
+          Your Data
+        </h2>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Export</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Download your settings, projects and sessions as JSON</p>
+          </div>
+          <a
+            href="/api/export"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </a>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Import</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Merge adds the bundle&apos;s projects and sessions to your own. Replace deletes your projects and sessions and restores the bundle&apos;s settings.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              {fileName || 'Choose file'}
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+            </label>
+            <select
+              className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm dark:text-white"
+              value={mode}
+              onChange={(e) => {
+                setMode(e.target.value as 'merge' | 'replace');
+                setReport(null);
+              }}
+            >
+              <option value="merge">Merge</option>
+              <option value="replace">Replace</option>
+            </select>
+            <button
+              type="button"
+              onClick={() => runImport(true)}
+              disabled={!bundle || isImporting}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Check
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div className="p-3 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+            <p className="font-medium mb-1">{report.dryRun ? 'This import would:' : 'Import complete:'}</p>
+            <ul className="list-disc list-inside space-y-0.5">
+              {report.mode === 'replace' && (
+                <li>Remove {report.projects.removed} projects and {report.sessions.removed} sessions</li>
+              )}
+              <li>Add {report.projects.imported} projects and {report.sessions.imported} sessions</li>
+              {report.sessions.skipped > 0 && <li>Skip {report.sessions.skipped} sessions</li>}
+              {report.settingsReplaced && <li>Restore the exported settings</li>}
+            </ul>
+            {report.warnings.length > 0 && (
+              <ul className="mt-2 text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+                {report.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            )}
+            {report.dryRun && (
+              <button
+                type="button"
+                onClick={() => runImport(false)}
+                disabled={isImporting}
+                className={`mt-3 px-3 py-2 text-white rounded-lg text-sm disabled:opacity-50 ${
+                  report.mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isImporting ? 'Importing...' : report.mode === 'replace' ? 'Replace my data' : 'Import'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
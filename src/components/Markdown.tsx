@@ -0,0 +1,149 @@
+import { Fragment, type ReactNode } from 'react';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Code spans, bold, italics and links, in order of precedence
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|__[^_]+__|\*[^*]+\*|_[^_]+_|\[[^\]]+\]\([^)\s]+\))/g;
+
+// Only links to web pages and mail addresses are rendered
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 1) {
+      return (
+        <code key={index} className="px-1 rounded bg-gray-100 dark:bg-gray-700 font-mono text-[0.9em]">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (/^(\*\*|__).+\1$/.test(part)) {
+      return <strong key={index}>{renderInline(part.slice(2, -2))}</strong>;
+    }
+    if (/^([*_]).+\1$/.test(part)) {
+      return <em key={index}>{renderInline(part.slice(1, -1))}</em>;
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return isSafeUrl(link[2]) ? (
+        <a
+          key={index}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          {link[1]}
+        </a>
+      ) : (
+        <Fragment key={index}>{link[1]}</Fragment>
+      );
+    }
+
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+}
+
+// Lines of a paragraph keep their line breaks
+function renderLines(lines: string[]) {
+  return lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+}
+
+/**
+ * Render Markdown notes: headings, paragraphs, lists, quotes, code blocks
+ * and inline formatting. Everything is rendered as React elements, so raw
+ * HTML in a note is shown as text.
+ */
+export default function Markdown({ content, className = '' }: MarkdownProps) {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = blocks.length;
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    if (line.trimStart().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith('```')) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(
+        <pre key={key} className="p-2 rounded bg-gray-100 dark:bg-gray-700 font-mono text-xs overflow-x-auto">
+          {code.join('\n')}
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const sizes = ['text-lg', 'text-base', 'text-sm'];
+      blocks.push(
+        <p key={key} className={`font-semibold ${sizes[heading[1].length - 1]}`}>
+          {renderInline(heading[2])}
+        </p>
+      );
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*+]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*+]|\d+\.)\s+/.test(lines[i])) {
+        items.push(lines[i++].replace(/^\s*([-*+]|\d+\.)\s+/, ''));
+      }
+      const ListTag = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={`pl-5 ${ordered ? 'list-decimal' : 'list-disc'}`}>
+          {items.map((item, index) => <li key={index}>{renderInline(item)}</li>)}
+        </ListTag>
+      );
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) {
+        quoted.push(lines[i++].replace(/^>\s?/, ''));
+      }
+      blocks.push(
+        <blockquote key={key} className="pl-3 border-l-4 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400">
+          {renderLines(quoted)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    // Paragraph, running until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !/^(#{1,3}\s|>|\s*```|\s*([-*+]|\d+\.)\s+)/.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(<p key={key}>{renderLines(paragraph)}</p>);
+  }
+
+  return <div className={`space-y-2 break-words ${className}`}>{blocks}</div>;
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { NotebookPen } from 'lucide-react';
+import Markdown from '@/components/Markdown';
+
+interface NoteHistoryProps {
+  projectId: string;
+  // Show one task's notes; all of the project's notes are shown when omitted
+  taskId?: string;
+  refreshKey?: number;
+}
+
+interface NoteEntry {
+  milestoneName: string;
+  taskId: string;
+  taskName: string;
+  sessionId: string | null;
+  note: string;
+  createdAt: string;
+}
+
+export default function NoteHistory({ projectId, taskId, refreshKey }: NoteHistoryProps) {
+  const [notes, setNotes] = useState<NoteEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the notes, newest first
+  useEffect(() => {
+    const fetchNotes = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const query = taskId ? `?taskId=${taskId}` : '';
+        const response = await fetch(`/api/projects/${projectId}/notes${query}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch notes');
+        }
+
+        const data = await response.json();
+        setNotes(data.notes);
+      } catch (err) {
+        console.error('Error fetching notes:', err);
+        setError('Failed to load session notes');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchNotes();
+  }, [projectId, taskId, refreshKey]);
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-semibold flex items-center gap-2 mb-4">
+        <NotebookPen className="w-5 h-5 text-gray-500" />
+        {taskId ? 'Task Notes' : 'Session Notes'}
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No session notes yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {notes.map((entry, index) => (
+            <li key={index} className="border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 p-3">
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-2">
+                <span>{taskId ? entry.milestoneName : `${entry.taskName} · ${entry.milestoneName}`}</span>
+                <span>{formatDateTime(entry.createdAt)}</span>
+              </div>
+              <Markdown content={entry.note} className="text-sm text-gray-700 dark:text-gray-300" />
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
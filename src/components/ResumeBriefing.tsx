@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw, ArrowRight, Globe, Monitor, Folder, X } from 'lucide-react';
+import { formatDuration } from '@/lib/session-time';
+import Markdown from '@/components/Markdown';
+
+interface ResumeBriefingProps {
+  projectId: string;
+  // Brief on a single task; the whole project is covered when omitted
+  milestoneId?: string;
+  taskId?: string;
+  onSelectTask?: (milestoneId: string, taskId: string) => void;
+  // Hide the snapshot where the workspace restore panel shows it instead
+  showSnapshot?: boolean;
+}
+
+interface Briefing {
+  lastSession: {
+    id: string;
+    taskName: string | null;
+    endTime: string | null;
+    duration: number;
+    note: string;
+  } | null;
+  snapshot: {
+    location: 'local' | 'cloud';
+    capturedAt: string;
+    apps: { name: string; path?: string }[];
+    browserTabs: { url: string; title: string }[];
+    workingDirectory: string;
+    context: string;
+  } | null;
+  secondsSince: number | null;
+  nextTask: {
+    milestoneId: string;
+    milestoneName: string;
+    taskId: string;
+    name: string;
+  } | null;
+}
+
+// Describe how long ago something happened, e.g. "3 days ago"
+const formatTimeSince = (seconds: number) => {
+  const units: [number, string][] = [[86400, 'day'], [3600, 'hour'], [60, 'minute']];
+
+  for (const [size, name] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) {
+      return `${count} ${name}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+};
+
+export default function ResumeBriefing({ projectId, milestoneId, taskId, onSelectTask, showSnapshot = true }: ResumeBriefingProps) {
+  const [briefing, setBriefing] = useState<Briefing | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  // Fetch the briefing for the project or task
+  useEffect(() => {
+    const fetchBriefing = async () => {
+      try {
+        const url = taskId
+          ? `/api/projects/${projectId}/milestones/${milestoneId}/tasks/${taskId}/briefing`
+          : `/api/projects/${projectId}/briefing`;
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch briefing');
+        }
+
+        setBriefing(await response.json());
+        setDismissed(false);
+      } catch (err) {
+        console.error('Error fetching briefing:', err);
+        setBriefing(null);
+      }
+    };
+
+    fetchBriefing();
+  }, [projectId, milestoneId, taskId]);
+
+  // Nothing to resume before the first session
+  if (!briefing?.lastSession || dismissed) {
+    return null;
+  }
+
+  const { lastSession, snapshot, secondsSince, nextTask } = briefing;
+
+  return (
+    <div className="bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-md p-4 mb-4 text-sm">
+      <div className="flex justify-between items-start mb-2">
+        <h3 className="font-medium text-indigo-900 dark:text-indigo-200 flex items-center gap-2">
+          <RotateCcw className="w-4 h-4" />
+          Where you left off
+        </h3>
+        <button
+          onClick={() => setDismissed(true)}
+          className="p-1 text-indigo-500 hover:text-indigo-700 dark:text-indigo-300"
+          title="Dismiss briefing"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-gray-700 dark:text-gray-300">
+        {!taskId && lastSession.taskName && <>Last worked on <span className="font-medium">{lastSession.taskName}</span> </>}
+        {secondsSince !== null && <>{taskId ? 'Last worked on ' : ''}{formatTimeSince(secondsSince)} </>}
+        for {formatDuration(lastSession.duration)}.
+      </p>
+
+      {lastSession.note && (
+        <Markdown
+          content={lastSession.note}
+          className="mt-2 p-2 bg-white dark:bg-gray-800 rounded border border-indigo-100 dark:border-indigo-900 text-gray-700 dark:text-gray-300"
+        />
+      )}
+
+      {showSnapshot && snapshot && (
+        snapshot.location === 'local' ? (
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            A snapshot of your workspace is saved on the device you used last.
+          </p>
+        ) : (
+          <div className="mt-2 space-y-1 text-gray-600 dark:text-gray-400">
+            {snapshot.context && <p>{snapshot.context}</p>}
+            {snapshot.workingDirectory && (
+              <p className="flex items-center gap-1">
+                <Folder className="w-4 h-4" />
+                <span className="font-mono">{snapshot.workingDirectory}</span>
+              </p>
+            )}
+            {snapshot.apps.length > 0 && (
+              <p className="flex items-center gap-1">
+                <Monitor className="w-4 h-4" />
+                {snapshot.apps.map(app => app.name).join(', ')}
+              </p>
+            )}
+            {snapshot.browserTabs.map(tab => (
+              <a
+                key={tab.url}
+                href={tab.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline truncate"
+              >
+                <Globe className="w-4 h-4 flex-shrink-0" />
+                {tab.title || tab.url}
+              </a>
+            ))}
+          </div>
+        )
+      )}
+
+      {nextTask && nextTask.taskId !== taskId && (
+        <div className="mt-3 flex items-center justify-between gap-2">
+          <span className="text-gray-700 dark:text-gray-300">
+            Next up: <span className="font-medium">{nextTask.name}</span>
+            <span className="text-gray-500 dark:text-gray-400"> · {nextTask.milestoneName}</span>
+          </span>
+          {onSelectTask && (
+            <button
+              onClick={() => onSelectTask(nextTask.milestoneId, nextTask.taskId)}
+              className="inline-flex items-center gap-1 text-indigo-700 dark:text-indigo-300 hover:underline"
+            >
+              Continue
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import type { Recurrence } from '@/lib/recurrence';
+
+interface ScheduleEditorProps {
+  projectId: string;
+  milestoneId: string;
+  // Task being edited; the milestone itself is edited when omitted
+  task?: {
+    _id: string;
+    dueDate?: string | null;
+    priority?: Priority;
+    recurrence?: Recurrence | null;
+  };
+  milestone?: {
+    dueDate?: string | null;
+    priority?: Priority;
+  };
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+type Priority = 'low' | 'medium' | 'high';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export default function ScheduleEditor({ projectId, milestoneId, task, milestone, onSaved, onCancel }: ScheduleEditorProps) {
+  const item = task || milestone;
+  const [dueDate, setDueDate] = useState(item?.dueDate ? item.dueDate.slice(0, 10) : '');
+  const [priority, setPriority] = useState<Priority>(item?.priority || 'medium');
+  const [frequency, setFrequency] = useState<string>(task?.recurrence?.frequency || 'none');
+  const [repeatInterval, setRepeatInterval] = useState(String(task?.recurrence?.interval || 1));
+  const [weekdays, setWeekdays] = useState<number[]>(task?.recurrence?.weekdays || []);
+  const [dayOfMonth, setDayOfMonth] = useState(task?.recurrence?.dayOfMonth?.toString() || '');
+  const [rule, setRule] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]);
+  };
+
+  // Recurrence as sent to the API: a rule string, an object or null
+  const buildRecurrence = () => {
+    if (frequency === 'none') return null;
+    if (frequency === 'rule') return rule;
+
+    return {
+      frequency,
+      interval: parseInt(repeatInterval) || 1,
+      weekdays: frequency === 'weekly' ? weekdays : [],
+      dayOfMonth: frequency === 'monthly' && dayOfMonth ? parseInt(dayOfMonth) : null
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const url = task
+        ? `/api/projects/${projectId}/milestones/${milestoneId}/tasks/${task._id}`
+        : `/api/projects/${projectId}/milestones/${milestoneId}`;
+
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          dueDate: dueDate ? new Date(`${dueDate}T00:00:00Z`).toISOString() : null,
+          priority,
+          ...(task ? { recurrence: buildRecurrence() } : {})
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save schedule');
+      }
+
+      onSaved();
+    } catch (err) {
+      console.error('Error saving task schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 pt-3 border-t border-gray-200 space-y-3 text-sm font-normal">
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 text-red-800 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-gray-700">
+          Due
+          <input
+            type="date"
+            className="p-1 border border-gray-300 rounded-md"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-700">
+          Priority
+          <select
+            className="p-1 border border-gray-300 rounded-md bg-white"
+            value={priority}
+            onChange={(e) => setPriority(e.target.value as Priority)}
+          >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+        </label>
+        {task && (
+          <label className="flex items-center gap-2 text-gray-700">
+            Repeat
+            <select
+              className="p-1 border border-gray-300 rounded-md bg-white"
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value)}
+            >
+              <option value="none">Never</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+              <option value="rule">Custom rule</option>
+            </select>
+          </label>
+        )}
+        {['daily', 'weekly', 'monthly'].includes(frequency) && (
+          <label className="flex items-center gap-2 text-gray-700">
+            every
+            <input
+              type="number"
+              min={1}
+              className="w-16 p-1 border border-gray-300 rounded-md"
+              value={repeatInterval}
+              onChange={(e) => setRepeatInterval(e.target.value)}
+            />
+            {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' }[frequency]}
+          </label>
+        )}
+      </div>
+
+      {frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((name, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-2 py-1 rounded border ${
+                weekdays.includes(day)
+                  ? 'bg-blue-500 border-blue-500 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {frequency === 'monthly' && (
+        <label className="flex items-center gap-2 text-gray-700">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            placeholder="Due day"
+            className="w-20 p-1 border border-gray-300 rounded-md"
+            value={dayOfMonth}
+            onChange={(e) => setDayOfMonth(e.target.value)}
+          />
+        </label>
+      )}
+
+      {frequency === 'rule' && (
+        <input
+          type="text"
+          placeholder="e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+          className="w-full p-1 border border-gray-300 rounded-md font-mono"
+          value={rule}
+          onChange={(e) => setRule(e.target.value)}
+          required
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 text-xs text-gray-600 hover:underline"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
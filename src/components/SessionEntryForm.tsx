@@ -0,0 +1,172 @@
+import { useState } from 'react';
+
+interface SessionEntryFormProps {
+  projectId: string;
+  milestones: {
+    _id: string;
+    name: string;
+    tasks: { _id: string; name: string }[];
+  }[];
+  // Session being edited; a new manual entry is created when omitted
+  session?: {
+    _id: string;
+    milestoneId: string;
+    taskId: string;
+    startTime: string;
+    endTime?: string;
+    note: string;
+  };
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+// Convert a date to the value format of a datetime-local input
+const toLocalInputValue = (dateString?: string) => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function SessionEntryForm({ projectId, milestones, session, onSaved, onCancel }: SessionEntryFormProps) {
+  const firstTask = milestones.find(m => m.tasks.length > 0);
+  const [taskKey, setTaskKey] = useState(
+    session
+      ? `${session.milestoneId}:${session.taskId}`
+      : firstTask ? `${firstTask._id}:${firstTask.tasks[0]._id}` : ''
+  );
+  const [startTime, setStartTime] = useState(toLocalInputValue(session?.startTime));
+  const [endTime, setEndTime] = useState(toLocalInputValue(session?.endTime));
+  const [note, setNote] = useState(session?.note || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    const [milestoneId, taskId] = taskKey.split(':');
+
+    try {
+      const response = await fetch(session ? `/api/sessions/${session._id}` : '/api/sessions', {
+        method: session ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId,
+          milestoneId,
+          taskId,
+          startTime: startTime ? new Date(startTime).toISOString() : null,
+          ...(session && !session.endTime ? {} : { endTime: endTime ? new Date(endTime).toISOString() : null }),
+          note
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save session');
+      }
+
+      onSaved();
+    } catch (err) {
+      console.error('Error saving session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save session');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border border-gray-200 dark:border-gray-700 rounded-md bg-gray-50 dark:bg-gray-800/50 space-y-3">
+      {error && (
+        <div className="p-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="entry-task" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Task
+        </label>
+        <select
+          id="entry-task"
+          className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 dark:text-white"
+          value={taskKey}
+          onChange={(e) => setTaskKey(e.target.value)}
+          required
+        >
+          {milestones.map(milestone => (
+            <optgroup key={milestone._id} label={milestone.name}>
+              {milestone.tasks.map(task => (
+                <option key={task._id} value={`${milestone._id}:${task._id}`}>{task.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="entry-start" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Start
+          </label>
+          <input
+            id="entry-start"
+            type="datetime-local"
+            className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            required
+          />
+        </div>
+        {(!session || session.endTime) && (
+          <div>
+            <label htmlFor="entry-end" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              End
+            </label>
+            <input
+              id="entry-end"
+              type="datetime-local"
+              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="entry-note" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Note
+        </label>
+        <textarea
+          id="entry-note"
+          rows={2}
+          className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          placeholder="What did you work on?"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !taskKey}
+          className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : session ? 'Save Changes' : 'Add Entry'}
+        </button>
+      </div>
+    </form>
+  );
+}
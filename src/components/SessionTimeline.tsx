@@ -0,0 +1,320 @@
+import { useState, useEffect } from 'react';
+import {
+  History,
+  ChevronDown,
+  ChevronRight,
+  Play,
+  Pause,
+  StickyNote,
+  CheckCircle,
+  Flag,
+  Timer,
+  Plus,
+  Edit2,
+  Trash2
+} from 'lucide-react';
+import { formatDuration, getActiveDuration } from '@/lib/session-time';
+import SessionEntryForm from '@/components/SessionEntryForm';
+
+interface SessionTimelineProps {
+  projectId: string;
+  milestones: {
+    _id: string;
+    name: string;
+    tasks: { _id: string; name: string }[];
+  }[];
+  refreshKey?: number;
+  onSessionsChange?: () => void;
+}
+
+interface SessionSummary {
+  _id: string;
+  milestoneId: string;
+  taskId: string;
+  startTime: string;
+  endTime?: string;
+  status: 'active' | 'paused' | 'completed';
+  duration?: number;
+  note: string;
+  segments: { type: 'active' | 'paused'; startTime: string; endTime?: string }[];
+}
+
+interface Activity {
+  timestamp: string;
+  action: 'start' | 'pause' | 'resume' | 'note_added' | 'task_status_changed' | 'interval_completed' | 'end';
+  metadata: Record<string, unknown>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed'
+};
+
+export default function SessionTimeline({ projectId, milestones, refreshKey, onSessionsChange }: SessionTimelineProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [expandedSession, setExpandedSession] = useState<string | null>(null);
+  const [activities, setActivities] = useState<Record<string, Activity[]>>({});
+  const [editingSession, setEditingSession] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the project's sessions
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/sessions?projectId=${projectId}`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch sessions');
+        }
+
+        setSessions(await response.json());
+        setActivities({});
+      } catch (err) {
+        console.error('Error fetching sessions:', err);
+        setError('Failed to load session history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [projectId, refreshKey, reloadKey]);
+
+  // Reload after a session is added, edited or deleted
+  const handleSessionSaved = () => {
+    setEditingSession(null);
+    setReloadKey(key => key + 1);
+    onSessionsChange?.();
+  };
+
+  // Delete a session
+  const deleteSession = async (sessionId: string) => {
+    if (!confirm('Are you sure you want to delete this session? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete session');
+      }
+
+      setSessions(sessions.filter(s => s._id !== sessionId));
+      onSessionsChange?.();
+    } catch (err) {
+      console.error('Error deleting session:', err);
+      setError('Failed to delete session. Please try again.');
+    }
+  };
+
+  // Expand a session and load its timeline
+  const toggleSession = async (sessionId: string) => {
+    if (expandedSession === sessionId) {
+      setExpandedSession(null);
+      return;
+    }
+
+    setExpandedSession(sessionId);
+
+    if (activities[sessionId]) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/timeline`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch timeline');
+      }
+
+      const data = await response.json();
+      setActivities(prev => ({ ...prev, [sessionId]: data.activities }));
+    } catch (err) {
+      console.error('Error fetching session timeline:', err);
+      setError('Failed to load session timeline');
+    }
+  };
+
+  // Look up the task name for a session
+  const getTaskName = (milestoneId: string, taskId: string) => {
+    const milestone = milestones.find(m => m._id === milestoneId);
+    const task = milestone?.tasks.find(t => t._id === taskId);
+    return task?.name || 'Deleted task';
+  };
+
+  const formatTime = (dateString: string) =>
+    new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  // Icon and description for a timeline event
+  const describeActivity = (activity: Activity) => {
+    switch (activity.action) {
+      case 'start':
+        return { icon: <Play className="w-4 h-4 text-blue-500" />, label: 'Session started' };
+      case 'pause':
+        return {
+          icon: <Pause className="w-4 h-4 text-yellow-500" />,
+          label: activity.metadata.reason === 'idle'
+            ? 'Paused automatically (idle)'
+            : activity.metadata.reason === 'focus_break' ? 'Break started' : 'Paused'
+        };
+      case 'resume':
+        return { icon: <Play className="w-4 h-4 text-blue-500" />, label: 'Resumed' };
+      case 'note_added':
+        return {
+          icon: <StickyNote className="w-4 h-4 text-gray-500" />,
+          label: `Note: ${String(activity.metadata.note ?? '')}`
+        };
+      case 'task_status_changed':
+        return {
+          icon: <CheckCircle className="w-4 h-4 text-green-500" />,
+          label: `Task marked ${STATUS_LABELS[String(activity.metadata.status)] || activity.metadata.status}`
+        };
+      case 'interval_completed':
+        return {
+          icon: <Timer className="w-4 h-4 text-red-500" />,
+          label: `Focus interval ${activity.metadata.interval} completed`
+        };
+      case 'end':
+        return {
+          icon: <Flag className="w-4 h-4 text-gray-700 dark:text-gray-300" />,
+          label: typeof activity.metadata.duration === 'number'
+            ? `Session ended after ${formatDuration(activity.metadata.duration)}`
+            : 'Session ended'
+        };
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-500" />
+          Session History
+        </h2>
+        <button
+          onClick={() => setEditingSession(editingSession === 'new' ? null : 'new')}
+          className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+        >
+          <Plus className="w-4 h-4" />
+          Log Time
+        </button>
+      </div>
+
+      {editingSession === 'new' && (
+        <div className="mb-4">
+          <SessionEntryForm
+            projectId={projectId}
+            milestones={milestones}
+            onSaved={handleSessionSaved}
+            onCancel={() => setEditingSession(null)}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-300 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No sessions recorded for this project yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <div key={session._id} className="border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800">
+              <button
+                onClick={() => toggleSession(session._id)}
+                className="w-full p-3 flex items-center justify-between text-left"
+              >
+                <div className="flex items-center gap-2">
+                  {expandedSession === session._id ? (
+                    <ChevronDown className="w-4 h-4 text-gray-500" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 text-gray-500" />
+                  )}
+                  <span className="font-medium text-gray-800 dark:text-gray-200">
+                    {getTaskName(session.milestoneId, session.taskId)}
+                  </span>
+                  {session.status !== 'completed' && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                      {session.status === 'paused' ? 'Paused' : 'In progress'}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  {formatDate(session.startTime)} · {formatDuration(session.duration ?? getActiveDuration(session))}
+                </div>
+              </button>
+              <div className="flex justify-end gap-1 px-3 -mt-2 pb-2">
+                <button
+                  onClick={() => setEditingSession(editingSession === session._id ? null : session._id)}
+                  className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-gray-500 dark:text-gray-400"
+                  title="Edit session"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteSession(session._id)}
+                  className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded text-red-500 dark:text-red-400"
+                  title="Delete session"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {editingSession === session._id && (
+                <div className="px-4 pb-3">
+                  <SessionEntryForm
+                    projectId={projectId}
+                    milestones={milestones}
+                    session={session}
+                    onSaved={handleSessionSaved}
+                    onCancel={() => setEditingSession(null)}
+                  />
+                </div>
+              )}
+
+              {expandedSession === session._id && editingSession !== session._id && (
+                <div className="px-4 pb-3">
+                  {activities[session._id] ? (
+                    <ol className="border-l border-gray-200 dark:border-gray-700 ml-2 space-y-2">
+                      {activities[session._id].map((activity, index) => {
+                        const { icon, label } = describeActivity(activity);
+                        return (
+                          <li key={index} className="ml-4 flex items-start gap-2 text-sm">
+                            <span className="mt-0.5">{icon}</span>
+                            <span className="text-gray-500 dark:text-gray-400 w-20 flex-shrink-0">
+                              {formatTime(activity.timestamp)}
+                            </span>
+                            <span className="text-gray-700 dark:text-gray-300">{label}</span>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Loading timeline...</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
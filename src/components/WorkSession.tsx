@@ -1,5 +1,14 @@
-import { useState, useEffect } from 'react';
-import { Clock, CheckCircle, X, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Clock, CheckCircle, X, AlertCircle, Pause, Play, Timer, ChevronDown, ChevronUp } from 'lucide-react';
+import { getActiveDuration } from '@/lib/session-time';
+import { saveLocalSnapshot, type LocalSnapshot } from '@/lib/local-snapshots';
+import { captureContents } from '@/lib/snapshot';
+import ResumeBriefing from '@/components/ResumeBriefing';
+import WorkspaceRestore from '@/components/WorkspaceRestore';
+import Markdown from '@/components/Markdown';
+
+// How often an active session reports that the user is still around
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
 
 interface WorkSessionProps {
   projectId: string;
@@ -8,37 +17,86 @@ interface WorkSessionProps {
   onSessionEnd: () => void;
 }
 
+interface SessionSegment {
+  type: 'active' | 'paused';
+  startTime: string;
+  endTime?: string;
+}
+
 interface Session {
   _id: string;
   startTime: string;
   endTime?: string;
-  status: 'active' | 'completed';
+  status: 'active' | 'paused' | 'completed';
+  segments: SessionSegment[];
   note: string;
+  focus?: {
+    workMinutes: number;
+    breakMinutes: number;
+    completedIntervals: number;
+  };
 }
 
+// Snapshot of the workspace described in the end-of-session form, or null
+// when nothing was filled in. Links are entered one per line.
+const buildWorkspaceSnapshot = (workspace: { context: string; workingDirectory: string; links: string }): LocalSnapshot | null => {
+  const browserTabs = workspace.links
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^https?:\/\//i.test(line))
+    .map(url => ({ url, title: '' }));
+  const context = workspace.context.trim();
+  const workingDirectory = workspace.workingDirectory.trim();
+
+  if (!context && !workingDirectory && browserTabs.length === 0) {
+    return null;
+  }
+
+  return { apps: [], browserTabs, workingDirectory, context };
+};
+
+// Show a browser notification, asking for permission the first time
+const notify = async (title: string, body: string) => {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  
+  if (Notification.permission === 'granted') {
+    new Notification(title, { body });
+  }
+};
+
 export default function WorkSession({ projectId, milestoneId, taskId, onSessionEnd }: WorkSessionProps) {
   const [activeSession, setActiveSession] = useState<Session | null>(null);
   const [note, setNote] = useState('');
+  const [previewNote, setPreviewNote] = useState(false);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [workspace, setWorkspace] = useState({ context: '', workingDirectory: '', links: '' });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
+  const [focusMode, setFocusMode] = useState(false);
+  const [phaseRemaining, setPhaseRemaining] = useState<number | null>(null);
+  const notifiedPhaseRef = useRef<string | null>(null);
 
   // Fetch active session on component mount
   useEffect(() => {
     fetchActiveSession();
   }, [projectId, milestoneId, taskId]);
 
-  // Update elapsed time for active sessions
+  // Update elapsed time for active sessions; the timer stays frozen while paused
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
     
+    if (activeSession) {
+      setElapsedTime(getActiveDuration(activeSession));
+    }
+    
     if (activeSession && activeSession.status === 'active') {
-      const startTime = new Date(activeSession.startTime).getTime();
-      
       interval = setInterval(() => {
-        const now = new Date().getTime();
-        const elapsed = Math.floor((now - startTime) / 1000);
-        setElapsedTime(elapsed);
+        setElapsedTime(getActiveDuration(activeSession));
       }, 1000);
     }
     
@@ -47,6 +105,92 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
     };
   }, [activeSession]);
 
+  // Count down the current focus interval or break. The phase started with
+  // the last segment: an active segment is work, a paused one is a break.
+  useEffect(() => {
+    const focus = activeSession?.focus;
+    const lastSegment = activeSession?.segments[activeSession.segments.length - 1];
+    
+    if (!activeSession || !focus || !lastSegment) {
+      setPhaseRemaining(null);
+      return;
+    }
+    
+    const isBreak = activeSession.status === 'paused';
+    const phaseLength = (isBreak ? focus.breakMinutes : focus.workMinutes) * 60;
+    const phaseKey = `${activeSession._id}:${lastSegment.startTime}`;
+    
+    const tick = async () => {
+      const phaseElapsed = Math.floor((Date.now() - new Date(lastSegment.startTime).getTime()) / 1000);
+      const remaining = Math.max(0, phaseLength - phaseElapsed);
+      setPhaseRemaining(remaining);
+      
+      if (remaining > 0 || notifiedPhaseRef.current === phaseKey) return;
+      notifiedPhaseRef.current = phaseKey;
+      
+      if (isBreak) {
+        notify('Break is over', 'Resume your session when you are ready to focus again.');
+        return;
+      }
+      
+      // Record the finished interval; the server starts the break
+      try {
+        const response = await fetch(`/api/sessions/${activeSession._id}/intervals`, {
+          method: 'POST',
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to complete focus interval');
+        }
+        
+        const updatedSession = await response.json();
+        setActiveSession(updatedSession);
+        notify(
+          `Focus interval ${updatedSession.focus.completedIntervals} complete`,
+          `Take a ${focus.breakMinutes} minute break.`
+        );
+      } catch (err) {
+        console.error('Error completing focus interval:', err);
+        setError('Failed to complete focus interval');
+      }
+    };
+    
+    tick();
+    const interval = setInterval(tick, 1000);
+    
+    return () => clearInterval(interval);
+  }, [activeSession]);
+
+  // Send heartbeats while the session is active and the page is open. Input
+  // in this tab is not required, since the work often happens in other apps;
+  // heartbeats stop when the tab is closed or the device goes to sleep.
+  useEffect(() => {
+    if (!activeSession || activeSession.status !== 'active') return;
+    
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/sessions/${activeSession._id}/heartbeat`, {
+          method: 'POST',
+        });
+        
+        if (!response.ok) return;
+        
+        // The server may have paused or ended the session for idling
+        const updatedSession = await response.json();
+        if (updatedSession.status === 'completed') {
+          setActiveSession(null);
+          onSessionEnd();
+        } else if (updatedSession.status !== activeSession.status) {
+          setActiveSession(updatedSession);
+        }
+      } catch (err) {
+        console.error('Error sending session heartbeat:', err);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    
+    return () => clearInterval(interval);
+  }, [activeSession, onSessionEnd]);
+
   // Format elapsed time as HH:MM:SS
   const formatElapsedTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -74,10 +218,7 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
         setActiveSession(data[0]);
         
         // Calculate initial elapsed time
-        const startTime = new Date(data[0].startTime).getTime();
-        const now = new Date().getTime();
-        const elapsed = Math.floor((now - startTime) / 1000);
-        setElapsedTime(elapsed);
+        setElapsedTime(getActiveDuration(data[0]));
       } else {
         setActiveSession(null);
       }
@@ -104,6 +245,7 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
           projectId,
           milestoneId,
           taskId,
+          focusMode,
         }),
       });
       
@@ -123,6 +265,35 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
     }
   };
 
+  // Pause or resume the current session
+  const toggleSessionPause = async () => {
+    if (!activeSession) return;
+    
+    const action = activeSession.status === 'paused' ? 'resume' : 'pause';
+    
+    try {
+      setIsLoading(true);
+      setError(null);
+      
+      const response = await fetch(`/api/sessions/${activeSession._id}/${action}`, {
+        method: 'POST',
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${action} session`);
+      }
+      
+      const updatedSession = await response.json();
+      setActiveSession(updatedSession);
+    } catch (err) {
+      console.error(`Error trying to ${action} session:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} session`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // End the current session
   const endSession = async () => {
     if (!activeSession) return;
@@ -131,6 +302,8 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
       setIsLoading(true);
       setError(null);
       
+      const snapshot = buildWorkspaceSnapshot(workspace);
+      
       const response = await fetch('/api/sessions', {
         method: 'PUT',
         headers: {
@@ -139,19 +312,41 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
         body: JSON.stringify({
           sessionId: activeSession._id,
           note,
+          snapshot,
         }),
       });
       
+      // The session was already ended, e.g. for idling, so there is nothing left to stop
+      if (response.status === 409) {
+        setActiveSession(null);
+        onSessionEnd();
+        throw new Error('This session had already ended');
+      }
+      
       if (!response.ok) {
         throw new Error('Failed to end session');
       }
       
+      // The server keeps only a marker for local snapshots, so the
+      // contents stay on this device, filtered by the same capture settings
+      const endedSession = await response.json();
+      if (snapshot && endedSession.snapshot?.location === 'local') {
+        const settingsResponse = await fetch('/api/user/settings');
+        if (settingsResponse.ok) {
+          const { settings } = await settingsResponse.json();
+          saveLocalSnapshot(activeSession._id, captureContents(snapshot, settings.sessionCapture));
+        }
+      }
+      
       setActiveSession(null);
       setNote('');
+      setPreviewNote(false);
+      setWorkspace({ context: '', workingDirectory: '', links: '' });
+      setShowWorkspace(false);
       onSessionEnd();
     } catch (err) {
       console.error('Error ending session:', err);
-      setError('Failed to end session');
+      setError(err instanceof Error ? err.message : 'Failed to end session');
     } finally {
       setIsLoading(false);
     }
@@ -177,33 +372,131 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
   }
 
   if (activeSession) {
+    const isPaused = activeSession.status === 'paused';
+    
     return (
-      <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-4">
+      <div className={`${isPaused ? 'bg-yellow-50 border-yellow-200' : 'bg-blue-50 border-blue-200'} border rounded-md p-4 mb-4`}>
         <div className="flex justify-between items-center mb-2">
           <div className="flex items-center">
-            <Clock className="h-5 w-5 text-blue-500 mr-2" />
-            <h3 className="font-medium text-blue-800">Active Work Session</h3>
+            <Clock className={`h-5 w-5 mr-2 ${isPaused ? 'text-yellow-500' : 'text-blue-500'}`} />
+            <h3 className={`font-medium ${isPaused ? 'text-yellow-800' : 'text-blue-800'}`}>
+              {isPaused ? 'Session Paused' : 'Active Work Session'}
+            </h3>
           </div>
-          <div className="text-lg font-mono font-bold text-blue-800">
+          <div className={`text-lg font-mono font-bold ${isPaused ? 'text-yellow-800' : 'text-blue-800'}`}>
             {formatElapsedTime(elapsedTime)}
           </div>
         </div>
         
+        <ResumeBriefing projectId={projectId} milestoneId={milestoneId} taskId={taskId} showSnapshot={false} />
+        
+        <WorkspaceRestore sessionId={activeSession._id} />
+        
+        {activeSession.focus && phaseRemaining !== null && (
+          <div className="flex items-center justify-between mb-3 text-sm">
+            <div className="flex items-center text-gray-700">
+              <Timer className="h-4 w-4 mr-1 text-red-500" />
+              <span>
+                {isPaused ? 'Break' : 'Focus'}: {phaseRemaining > 0 ? `${formatElapsedTime(phaseRemaining)} left` : 'time is up'}
+              </span>
+            </div>
+            <span className="text-gray-600">
+              {activeSession.focus.completedIntervals} {activeSession.focus.completedIntervals === 1 ? 'interval' : 'intervals'} completed
+            </span>
+          </div>
+        )}
+        
         <div className="mb-3">
-          <label htmlFor="session-note" className="block text-sm font-medium text-gray-700 mb-1">
-            Session Notes
-          </label>
-          <textarea
-            id="session-note"
-            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            rows={3}
-            placeholder="What did you accomplish in this session?"
-            value={note}
-            onChange={(e) => setNote(e.target.value)}
-          />
+          <div className="flex justify-between items-center mb-1">
+            <label htmlFor="session-note" className="block text-sm font-medium text-gray-700">
+              Session Notes
+            </label>
+            <div className="flex gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => setPreviewNote(false)}
+                className={previewNote ? 'text-gray-500 hover:underline' : 'font-medium text-gray-800'}
+              >
+                Write
+              </button>
+              <button
+                type="button"
+                onClick={() => setPreviewNote(true)}
+                className={previewNote ? 'font-medium text-gray-800' : 'text-gray-500 hover:underline'}
+              >
+                Preview
+              </button>
+            </div>
+          </div>
+          {previewNote ? (
+            <div className="min-h-[5rem] px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-800">
+              {note.trim() ? <Markdown content={note} /> : <span className="text-gray-400">Nothing to preview</span>}
+            </div>
+          ) : (
+            <textarea
+              id="session-note"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              rows={3}
+              placeholder="What did you accomplish in this session? Markdown is supported."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          )}
+        </div>
+        
+        <div className="mb-3">
+          <button
+            type="button"
+            onClick={() => setShowWorkspace(!showWorkspace)}
+            className="flex items-center text-sm font-medium text-gray-700"
+          >
+            {showWorkspace ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            Save workspace for next time
+          </button>
+          {showWorkspace && (
+            <div className="mt-2 space-y-2">
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Where you are in the work, e.g. halfway through the pricing section"
+                value={workspace.context}
+                onChange={(e) => setWorkspace({ ...workspace, context: e.target.value })}
+              />
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Working directory, e.g. ~/projects/site"
+                value={workspace.workingDirectory}
+                onChange={(e) => setWorkspace({ ...workspace, workingDirectory: e.target.value })}
+              />
+              <textarea
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                rows={2}
+                placeholder="Links to reopen, one per line"
+                value={workspace.links}
+                onChange={(e) => setWorkspace({ ...workspace, links: e.target.value })}
+              />
+            </div>
+          )}
         </div>
         
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={toggleSessionPause}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {isPaused ? (
+              <>
+                <Play className="h-4 w-4 mr-2" />
+                Resume
+              </>
+            ) : (
+              <>
+                <Pause className="h-4 w-4 mr-2" />
+                Pause
+              </>
+            )}
+          </button>
           <button
             onClick={endSession}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -223,12 +516,23 @@ export default function WorkSession({ projectId, milestoneId, taskId, onSessionE
           <Clock className="h-5 w-5 text-gray-500 mr-2" />
           <h3 className="font-medium text-gray-700">No Active Session</h3>
         </div>
-        <button
-          onClick={startSession}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-        >
-          Start Session
-        </button>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={focusMode}
+              onChange={(e) => setFocusMode(e.target.checked)}
+            />
+            Focus mode
+          </label>
+          <button
+            onClick={startSession}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Start Session
+          </button>
+        </div>
       </div>
     </div>
   );
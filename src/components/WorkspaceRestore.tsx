@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { ArchiveRestore, ExternalLink, Folder, Globe, Monitor } from 'lucide-react';
+import { loadLocalSnapshot, type LocalSnapshot } from '@/lib/local-snapshots';
+
+interface WorkspaceRestoreProps {
+  sessionId: string;
+}
+
+interface RestoreManifest {
+  available: boolean;
+  sourceSessionId?: string;
+  location?: 'local' | 'cloud';
+  capturedAt?: string;
+  snapshot: LocalSnapshot | null;
+}
+
+export default function WorkspaceRestore({ sessionId }: WorkspaceRestoreProps) {
+  const [snapshot, setSnapshot] = useState<LocalSnapshot | null>(null);
+  const [capturedAt, setCapturedAt] = useState<string | null>(null);
+  const [isElsewhere, setIsElsewhere] = useState(false);
+
+  // Fetch the workspace saved by the task's previous session
+  useEffect(() => {
+    const fetchManifest = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/restore`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch restore manifest');
+        }
+
+        const manifest: RestoreManifest = await response.json();
+        if (!manifest.available || !manifest.sourceSessionId) {
+          setSnapshot(null);
+          return;
+        }
+
+        // Local snapshots can only be restored on the device that saved them
+        const contents = manifest.location === 'local'
+          ? loadLocalSnapshot(manifest.sourceSessionId)
+          : manifest.snapshot;
+
+        setSnapshot(contents);
+        setIsElsewhere(manifest.location === 'local' && !contents);
+        setCapturedAt(manifest.capturedAt || null);
+      } catch (err) {
+        console.error('Error fetching restore manifest:', err);
+        setSnapshot(null);
+      }
+    };
+
+    fetchManifest();
+  }, [sessionId]);
+
+  if (isElsewhere) {
+    return (
+      <p className="mb-3 text-sm text-gray-600">
+        Your last workspace snapshot for this task is saved on another device.
+      </p>
+    );
+  }
+
+  if (!snapshot) {
+    return null;
+  }
+
+  const openTabs = () => {
+    snapshot.browserTabs.forEach(tab => window.open(tab.url, '_blank', 'noopener,noreferrer'));
+  };
+
+  return (
+    <div className="mb-3 p-3 bg-white border border-gray-200 rounded-md text-sm text-gray-700">
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="font-medium flex items-center gap-2">
+          <ArchiveRestore className="w-4 h-4 text-gray-500" />
+          Restore workspace
+        </h4>
+        {capturedAt && (
+          <span className="text-xs text-gray-500">
+            Saved {new Date(capturedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {snapshot.context && <p>{snapshot.context}</p>}
+        {snapshot.workingDirectory && (
+          <p className="flex items-center gap-1">
+            <Folder className="w-4 h-4 text-gray-500" />
+            <span className="font-mono">{snapshot.workingDirectory}</span>
+          </p>
+        )}
+        {snapshot.apps.length > 0 && (
+          <p className="flex items-center gap-1">
+            <Monitor className="w-4 h-4 text-gray-500" />
+            {snapshot.apps.map(app => app.name).join(', ')}
+          </p>
+        )}
+        {snapshot.browserTabs.map(tab => (
+          <a
+            key={tab.url}
+            href={tab.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-600 hover:underline truncate"
+          >
+            <Globe className="w-4 h-4 flex-shrink-0" />
+            {tab.title || tab.url}
+          </a>
+        ))}
+      </div>
+
+      {snapshot.browserTabs.length > 1 && (
+        <button
+          type="button"
+          onClick={openTabs}
+          className="mt-2 inline-flex items-center gap-1 text-blue-600 hover:underline"
+        >
+          <ExternalLink className="w-4 h-4" />
+          Open all {snapshot.browserTabs.length} links
+        </button>
+      )}
+    </div>
+  );
+}
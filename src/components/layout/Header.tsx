@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { signOut, useSession } from 'next-auth/react';
@@ -16,12 +16,77 @@ import {
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface SearchResult {
+  type: 'project' | 'milestone' | 'task' | 'task_note' | 'session_note';
+  projectId: string;
+  projectName: string;
+  milestoneId?: string;
+  taskId?: string;
+  title: string;
+  snippet: string;
+}
+
+const RESULT_LABELS: Record<SearchResult['type'], string> = {
+  project: 'Project',
+  milestone: 'Milestone',
+  task: 'Task',
+  task_note: 'Task note',
+  session_note: 'Session note'
+};
+
+// Link to the project, selecting the task when the result belongs to one
+const getResultHref = (result: SearchResult) =>
+  result.taskId
+    ? `/projects/${result.projectId}?milestoneId=${result.milestoneId}&taskId=${result.taskId}`
+    : `/projects/${result.projectId}`;
+
 export default function Header() {
   const { data: session } = useSession();
   const pathname = usePathname();
   const { theme, setTheme } = useTheme();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
+  // Search as the user types
+  useEffect(() => {
+    const query = searchQuery.trim();
+    
+    if (query.length < 2) {
+      setSearchResults(null);
+      return;
+    }
+    
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        });
+        
+        if (!response.ok) {
+          throw new Error('Failed to search');
+        }
+        
+        const data = await response.json();
+        setSearchResults(data.results);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error('Error searching:', err);
+        setSearchResults([]);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchQuery]);
 
   // Don't show header on auth pages
   if (pathname?.startsWith('/auth')) {
@@ -78,7 +143,46 @@ export default function Header() {
                   type="text"
                   placeholder="Search projects..."
                   className="block w-64 pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:text-white"
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setIsSearchOpen(true);
+                  }}
+                  onFocus={() => setIsSearchOpen(true)}
+                  // Delay closing so a click on a result still lands
+                  onBlur={() => setTimeout(() => setIsSearchOpen(false), 150)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') setIsSearchOpen(false);
+                  }}
                 />
+                
+                {isSearchOpen && searchResults && (
+                  <div className="absolute right-0 mt-2 w-96 max-h-96 overflow-y-auto rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 z-50">
+                    {searchResults.length === 0 ? (
+                      <p className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No results</p>
+                    ) : (
+                      searchResults.map((result, index) => (
+                        <Link
+                          key={index}
+                          href={getResultHref(result)}
+                          className="block px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                          onClick={() => {
+                            setIsSearchOpen(false);
+                            setSearchQuery('');
+                          }}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+                            <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">{RESULT_LABELS[result.type]}</span>
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {result.type === 'project' ? result.snippet : `${result.projectName}${result.snippet ? ` · ${result.snippet}` : ''}`}
+                          </div>
+                        </Link>
+                      ))
+                    )}
+                  </div>
+                )}
               </div>
             </div>
             
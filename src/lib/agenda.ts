@@ -0,0 +1,116 @@
+import { dueDay, localDay } from '@/lib/dates';
+
+type ItemStatus = 'not_started' | 'in_progress' | 'completed';
+type Priority = 'low' | 'medium' | 'high';
+
+interface AgendaProject {
+  _id: unknown;
+  name: string;
+  deadline?: Date | null;
+  milestones: {
+    _id: unknown;
+    name: string;
+    dueDate?: Date | null;
+    tasks: {
+      _id: unknown;
+      name: string;
+      status: ItemStatus;
+      dueDate?: Date | null;
+      priority?: Priority;
+      lastSession?: { timestamp?: Date | null; note?: string };
+    }[];
+  }[];
+}
+
+export type AgendaReason = 'overdue' | 'due_today' | 'in_progress' | 'recent';
+
+export interface AgendaItem {
+  projectId: string;
+  projectName: string;
+  milestoneId: string;
+  milestoneName: string;
+  taskId: string;
+  name: string;
+  status: ItemStatus;
+  priority: Priority;
+  dueDate: Date | null;
+  // Task due date, else the milestone's, else the project deadline
+  deadline: Date | null;
+  lastSession: { timestamp: Date; note: string } | null;
+  reasons: AgendaReason[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tasks worked on within this many days count as recent
+export const RECENT_DAYS = 3;
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+// Overdue work comes first, then work due today, then everything else
+const urgency = (item: AgendaItem) =>
+  item.reasons.includes('overdue') ? 0 : item.reasons.includes('due_today') ? 1 : 2;
+
+/**
+ * Open tasks worth working on now across the given projects: overdue,
+ * due today, in progress or worked on recently. Today is the current day
+ * in the given time zone. Ranked by urgency, then priority, then the
+ * nearest deadline, then the most recent session.
+ */
+export function buildAgenda(projects: AgendaProject[], now: Date, timeZone = 'UTC'): AgendaItem[] {
+  const items: AgendaItem[] = [];
+  const recentSince = now.getTime() - RECENT_DAYS * DAY_MS;
+  const today = localDay(now, timeZone);
+
+  for (const project of projects) {
+    for (const milestone of project.milestones) {
+      for (const task of milestone.tasks) {
+        if (task.status === 'completed') continue;
+
+        const reasons: AgendaReason[] = [];
+        const dueDate = task.dueDate ?? null;
+
+        // Due dates are whole days, so a task is due today until the user's day ends
+        if (dueDate && dueDay(dueDate) < today) {
+          reasons.push('overdue');
+        } else if (dueDate && dueDay(dueDate) === today) {
+          reasons.push('due_today');
+        }
+        if (task.status === 'in_progress') {
+          reasons.push('in_progress');
+        }
+
+        const lastSessionAt = task.lastSession?.timestamp ?? null;
+        if (lastSessionAt && lastSessionAt.getTime() >= recentSince) {
+          reasons.push('recent');
+        }
+
+        if (reasons.length === 0) continue;
+
+        items.push({
+          projectId: String(project._id),
+          projectName: project.name,
+          milestoneId: String(milestone._id),
+          milestoneName: milestone.name,
+          taskId: String(task._id),
+          name: task.name,
+          status: task.status,
+          priority: task.priority || 'medium',
+          dueDate,
+          deadline: dueDate ?? milestone.dueDate ?? project.deadline ?? null,
+          lastSession: lastSessionAt
+            ? { timestamp: lastSessionAt, note: task.lastSession?.note || '' }
+            : null,
+          reasons
+        });
+      }
+    }
+  }
+
+  return items.sort((a, b) =>
+    urgency(a) - urgency(b) ||
+    PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+    (a.deadline?.getTime() ?? Infinity) - (b.deadline?.getTime() ?? Infinity) ||
+    (b.lastSession?.timestamp.getTime() ?? 0) - (a.lastSession?.timestamp.getTime() ?? 0)
+  );
+}
@@ -0,0 +1,29 @@
+import Project from '@/models/Project';
+import User from '@/models/User';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Archive the user's completed projects that have not been updated within
+ * their auto-archive period. Returns the number of projects archived.
+ */
+export async function applyAutoArchive(userId: string) {
+  const user = await User.findById(userId).select('settings.autoArchive');
+  const autoArchive = user?.settings?.autoArchive;
+
+  if (!autoArchive?.enabled) {
+    return 0;
+  }
+
+  const now = new Date();
+  const result = await Project.updateMany(
+    {
+      userId,
+      status: 'completed',
+      updatedAt: { $lt: new Date(now.getTime() - autoArchive.days * DAY_MS) }
+    },
+    { $set: { status: 'archived', archivedAt: now } }
+  );
+
+  return result.modifiedCount;
+}
@@ -0,0 +1,152 @@
+import { getIncompletePrerequisites } from '@/lib/projects';
+
+type ItemStatus = 'not_started' | 'in_progress' | 'completed';
+
+interface BriefingTask {
+  _id: unknown;
+  name: string;
+  status: ItemStatus;
+  dependsOn?: unknown[];
+  lastSession?: { timestamp?: Date | null; note?: string };
+}
+
+interface BriefingProject {
+  updatedAt?: Date;
+  milestones: {
+    _id: unknown;
+    name: string;
+    tasks: BriefingTask[];
+  }[];
+}
+
+interface BriefingSession {
+  _id: unknown;
+  milestoneId: string;
+  taskId: string;
+  startTime: Date;
+  endTime?: Date;
+  duration?: number;
+  note: string;
+  snapshot?: {
+    location: 'local' | 'cloud';
+    capturedAt: Date;
+    apps: { name: string; path?: string }[];
+    browserTabs: { url: string; title: string }[];
+    workingDirectory: string;
+    context: string;
+  };
+}
+
+export interface Briefing {
+  lastSession: {
+    id: string;
+    milestoneId: string;
+    taskId: string;
+    taskName: string | null;
+    startTime: Date;
+    endTime: Date | null;
+    duration: number;
+    note: string;
+  } | null;
+  // Local snapshots stay on the device; the client looks them up by session ID
+  snapshot: {
+    location: 'local' | 'cloud';
+    capturedAt: Date;
+    sourceSessionId: string;
+    apps: { name: string; path?: string }[];
+    browserTabs: { url: string; title: string }[];
+    workingDirectory: string;
+    context: string;
+  } | null;
+  lastTouchedAt: Date | null;
+  // Seconds since the work was last touched
+  secondsSince: number | null;
+  nextTask: {
+    milestoneId: string;
+    milestoneName: string;
+    taskId: string;
+    name: string;
+    status: ItemStatus;
+  } | null;
+}
+
+// Snapshot as shown in a briefing, keeping only the marker of local ones
+function toBriefingSnapshot(
+  sourceSessionId: unknown,
+  snapshot: NonNullable<BriefingSession['snapshot']>
+): NonNullable<Briefing['snapshot']> {
+  const isCloud = snapshot.location === 'cloud';
+
+  return {
+    location: snapshot.location,
+    capturedAt: snapshot.capturedAt,
+    sourceSessionId: String(sourceSessionId),
+    apps: isCloud ? snapshot.apps : [],
+    browserTabs: isCloud ? snapshot.browserTabs : [],
+    workingDirectory: isCloud ? snapshot.workingDirectory : '',
+    context: isCloud ? snapshot.context : ''
+  };
+}
+
+/**
+ * Build the context needed to pick up work again: the last completed
+ * session and its snapshot, how long ago the work was touched and the
+ * next incomplete task. For a task briefing the search for the next task
+ * starts at the task itself, for a project briefing at the task of the
+ * last session. Blocked tasks are skipped. The snapshot comes from the
+ * latest session that saved one, which need not be the last session.
+ */
+export function buildBriefing(
+  project: BriefingProject,
+  sessions: { lastSession: BriefingSession | null; snapshotSession: BriefingSession | null },
+  now: Date,
+  taskId?: string
+): Briefing {
+  const { lastSession, snapshotSession } = sessions;
+  const tasks = project.milestones.flatMap(milestone =>
+    milestone.tasks.map(task => ({ milestone, task }))
+  );
+  const findTask = (id?: string) => tasks.find(entry => String(entry.task._id) === id);
+
+  const lastSessionTask = findTask(lastSession?.taskId);
+  const fromTask = taskId ? findTask(taskId) : lastSessionTask;
+  const startIndex = fromTask ? tasks.indexOf(fromTask) : 0;
+
+  // Search from the starting task to the end of the project, then wrap around
+  const next = [...tasks.slice(startIndex), ...tasks.slice(0, startIndex)].find(({ task }) =>
+    task.status !== 'completed' && getIncompletePrerequisites(project, task).length === 0
+  );
+
+  const touchedTimes = [
+    lastSession ? (lastSession.endTime || lastSession.startTime) : null,
+    taskId ? fromTask?.task.lastSession?.timestamp : project.updatedAt
+  ].filter((time): time is Date => time instanceof Date);
+  const lastTouchedAt = touchedTimes.length > 0
+    ? new Date(Math.max(...touchedTimes.map(time => time.getTime())))
+    : null;
+
+  return {
+    lastSession: lastSession ? {
+      id: String(lastSession._id),
+      milestoneId: lastSession.milestoneId,
+      taskId: lastSession.taskId,
+      taskName: lastSessionTask?.task.name ?? null,
+      startTime: lastSession.startTime,
+      endTime: lastSession.endTime ?? null,
+      duration: lastSession.duration ?? 0,
+      note: lastSession.note
+    } : null,
+    snapshot: snapshotSession?.snapshot ? toBriefingSnapshot(snapshotSession._id, snapshotSession.snapshot) : null,
+    lastTouchedAt,
+    secondsSince: lastTouchedAt
+      ? Math.max(0, Math.floor((now.getTime() - lastTouchedAt.getTime()) / 1000))
+      : null,
+    nextTask: next ? {
+      milestoneId: String(next.milestone._id),
+      milestoneName: next.milestone.name,
+      taskId: String(next.task._id),
+      name: next.task.name,
+      status: next.task.status
+    } : null
+  };
+}
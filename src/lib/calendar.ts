@@ -0,0 +1,162 @@
+interface CalendarProject {
+  _id: unknown;
+  name: string;
+  status: string;
+  deadline?: Date | null;
+  milestones: {
+    _id: unknown;
+    tasks: {
+      _id: unknown;
+      name: string;
+      dueDate?: Date | null;
+    }[];
+  }[];
+}
+
+interface CalendarSession {
+  _id: unknown;
+  projectId: unknown;
+  milestoneId: string;
+  taskId: string;
+  startTime: Date;
+  endTime?: Date | null;
+  note: string;
+}
+
+// Domain part of event UIDs, keeping them unique across calendars
+const UID_DOMAIN = 'blivalley';
+
+// Lines longer than this many octets of UTF-8 are folded
+const MAX_LINE_OCTETS = 75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Escape commas, semicolons, backslashes and newlines in text values
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Octets a code point takes in UTF-8
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0)!;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+// Split long lines, continuing each with a leading space. Lines are only
+// cut between characters, so multi-byte characters stay whole.
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n');
+}
+
+// Due dates are stored at UTC midnight, so the UTC date is the calendar day
+const formatDate = (date: Date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function allDayEvent(uid: string, date: Date, summary: string, url: string, stamp: string) {
+  const day = new Date(date);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(day)}`,
+    `DTEND;VALUE=DATE:${formatDate(new Date(day.getTime() + DAY_MS))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `URL:${url}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Build an iCalendar feed of the user's project deadlines and task due
+ * dates as all-day events, and of completed sessions as timed events.
+ * Dates of archived projects are left out, though their sessions are kept.
+ * Every event links to its project page under baseUrl.
+ */
+export function buildCalendarFeed(
+  projects: CalendarProject[],
+  sessions: CalendarSession[],
+  baseUrl: string,
+  now: Date
+) {
+  const stamp = formatDateTime(now);
+  const projectUrl = (projectId: unknown) => `${baseUrl}/projects/${String(projectId)}`;
+  const projectsById = new Map(projects.map(project => [String(project._id), project]));
+  const events: string[][] = [];
+
+  for (const project of projects) {
+    if (project.status === 'archived') continue;
+
+    if (project.deadline) {
+      events.push(allDayEvent(
+        `deadline-${String(project._id)}`,
+        project.deadline,
+        `Deadline: ${project.name}`,
+        projectUrl(project._id),
+        stamp
+      ));
+    }
+
+    for (const milestone of project.milestones) {
+      for (const task of milestone.tasks) {
+        if (!task.dueDate) continue;
+
+        events.push(allDayEvent(
+          `task-${String(task._id)}`,
+          task.dueDate,
+          `Due: ${task.name} (${project.name})`,
+          `${projectUrl(project._id)}?milestoneId=${String(milestone._id)}&taskId=${String(task._id)}`,
+          stamp
+        ));
+      }
+    }
+  }
+
+  for (const session of sessions) {
+    if (!session.endTime) continue;
+
+    const project = projectsById.get(String(session.projectId));
+    const task = project?.milestones
+      .find(m => String(m._id) === session.milestoneId)
+      ?.tasks.find(t => String(t._id) === session.taskId);
+
+    events.push([
+      'BEGIN:VEVENT',
+      `UID:session-${String(session._id)}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(new Date(session.startTime))}`,
+      `DTEND:${formatDateTime(new Date(session.endTime))}`,
+      `SUMMARY:${escapeText(`${task?.name || 'Work session'} (${project?.name || 'Deleted project'})`)}`,
+      ...(session.note ? [`DESCRIPTION:${escapeText(session.note)}`] : []),
+      `URL:${projectUrl(session.projectId)}?milestoneId=${session.milestoneId}&taskId=${session.taskId}`,
+      'END:VEVENT'
+    ]);
+  }
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Blivalley//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Blivalley',
+    ...events.flat(),
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+}
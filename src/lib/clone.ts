@@ -0,0 +1,166 @@
+import { Types } from 'mongoose';
+import type { Recurrence } from '@/lib/recurrence';
+
+type ItemStatus = 'not_started' | 'in_progress' | 'completed';
+
+export interface CloneOptions {
+  name?: string;
+  // Statuses, checklist progress and recurrence completions are reset unless kept
+  keepStatuses: boolean;
+  // Task notes and note history are cleared unless kept
+  keepNotes: boolean;
+  keepDeadline: boolean;
+  // Clone only these milestones; all milestones are cloned when omitted
+  milestoneIds?: string[];
+}
+
+interface CloneTask {
+  _id: unknown;
+  name: string;
+  status: ItemStatus;
+  notes: string;
+  estimateMinutes?: number | null;
+  weight?: number | null;
+  dependsOn: unknown[];
+  checklist: { text: string; done: boolean }[];
+  dueDate?: Date | null;
+  priority: string;
+  recurrence?: Recurrence | null;
+  completions: { taskId: unknown; completedAt: Date; dueDate: Date | null }[];
+  lastSession?: { timestamp: Date | null; note: string };
+  noteHistory: { sessionId?: unknown; note: string; createdAt: Date }[];
+}
+
+interface CloneProject {
+  name: string;
+  description: string;
+  category: string;
+  deadline?: Date | null;
+  milestones: {
+    _id: unknown;
+    name: string;
+    status: ItemStatus;
+    estimateMinutes?: number | null;
+    dueDate?: Date | null;
+    priority: string;
+    tasks: CloneTask[];
+  }[];
+  settings: object;
+}
+
+const isOptionalBoolean = (value: unknown) => value === undefined || typeof value === 'boolean';
+
+/**
+ * Read clone options from a request body. Returns the options, or an error
+ * message when they are invalid or name milestones the project lacks.
+ */
+export function parseCloneOptions(input: unknown, project: CloneProject): CloneOptions | string {
+  const body = typeof input === 'object' && input !== null ? input as Record<string, unknown> : {};
+
+  if (body.name !== undefined && (typeof body.name !== 'string' || body.name.trim() === '')) {
+    return "Name must be a non-empty string";
+  }
+  if (!isOptionalBoolean(body.keepStatuses) || !isOptionalBoolean(body.keepNotes) || !isOptionalBoolean(body.keepDeadline)) {
+    return "Clone options must be booleans";
+  }
+
+  let milestoneIds: string[] | undefined;
+  if (body.milestoneIds !== undefined) {
+    if (!Array.isArray(body.milestoneIds) || body.milestoneIds.length === 0 ||
+        body.milestoneIds.some(id => typeof id !== 'string')) {
+      return "milestoneIds must be a non-empty list of milestone IDs";
+    }
+
+    milestoneIds = body.milestoneIds as string[];
+    const known = new Set(project.milestones.map(milestone => String(milestone._id)));
+    if (milestoneIds.some(id => !known.has(id))) {
+      return "Milestone not found";
+    }
+  }
+
+  return {
+    name: typeof body.name === 'string' ? body.name.trim() : undefined,
+    keepStatuses: body.keepStatuses === true,
+    keepNotes: body.keepNotes === true,
+    keepDeadline: body.keepDeadline !== false,
+    milestoneIds
+  };
+}
+
+/**
+ * Copy of a project's data for a new project. Milestones and tasks get new
+ * IDs, with dependencies remapped to the copies; dependencies on tasks left
+ * out of the clone are dropped. When statuses are reset, past instances of
+ * recurring tasks are left out and only the live instance is cloned.
+ * Sessions are not cloned, so kept notes lose their link to the session
+ * they were written in.
+ */
+export function cloneProjectData(project: CloneProject, options: CloneOptions) {
+  // Completed instances of recurring tasks, listed in the live instance's
+  // completions. A reset clone starts the series afresh from the live one.
+  const pastInstances = new Set(project.milestones.flatMap(milestone =>
+    milestone.tasks.flatMap(task => task.completions.map(completion => String(completion.taskId)))));
+
+  const milestones = (options.milestoneIds
+    ? project.milestones.filter(milestone => options.milestoneIds!.includes(String(milestone._id)))
+    : project.milestones
+  ).map(milestone => ({
+    ...milestone,
+    tasks: options.keepStatuses
+      ? milestone.tasks
+      : milestone.tasks.filter(task => !pastInstances.has(String(task._id)))
+  }));
+
+  const taskIds = new Map<string, Types.ObjectId>();
+  for (const milestone of milestones) {
+    for (const task of milestone.tasks) {
+      taskIds.set(String(task._id), new Types.ObjectId());
+    }
+  }
+
+  const status = (value: ItemStatus) => options.keepStatuses ? value : 'not_started';
+
+  return {
+    name: options.name || `${project.name} (copy)`,
+    description: project.description,
+    category: project.category,
+    deadline: options.keepDeadline ? project.deadline ?? null : null,
+    settings: project.settings,
+    milestones: milestones.map(milestone => ({
+      _id: new Types.ObjectId(),
+      name: milestone.name,
+      status: status(milestone.status),
+      estimateMinutes: milestone.estimateMinutes ?? null,
+      dueDate: milestone.dueDate ?? null,
+      priority: milestone.priority,
+      tasks: milestone.tasks.map(task => ({
+        _id: taskIds.get(String(task._id)),
+        name: task.name,
+        status: status(task.status),
+        notes: options.keepNotes ? task.notes : '',
+        estimateMinutes: task.estimateMinutes ?? null,
+        weight: task.weight ?? null,
+        dependsOn: task.dependsOn
+          .map(id => taskIds.get(String(id)))
+          .filter((id): id is Types.ObjectId => id !== undefined),
+        checklist: task.checklist.map(item => ({
+          text: item.text,
+          done: options.keepStatuses ? item.done : false
+        })),
+        dueDate: task.dueDate ?? null,
+        priority: task.priority,
+        recurrence: task.recurrence ?? null,
+        completions: options.keepStatuses
+          ? task.completions.map(completion => ({
+              ...completion,
+              taskId: taskIds.get(String(completion.taskId)) ?? completion.taskId
+            }))
+          : [],
+        ...(options.keepNotes && {
+          lastSession: task.lastSession,
+          noteHistory: task.noteHistory.map(entry => ({ sessionId: null, note: entry.note, createdAt: entry.createdAt }))
+        })
+      }))
+    }))
+  };
+}
@@ -0,0 +1,289 @@
+import { Types } from 'mongoose';
+
+// Bump when the bundle layout changes; imports accept this version and older
+export const BUNDLE_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+type BundleRecord = Record<string, unknown>;
+
+interface BundleTask extends BundleRecord {
+  _id: unknown;
+  name: string;
+  dependsOn?: unknown[];
+  checklist?: BundleRecord[];
+  completions?: { taskId: unknown }[];
+  noteHistory?: { sessionId?: unknown }[];
+}
+
+interface BundleMilestone extends BundleRecord {
+  _id: unknown;
+  name: string;
+  tasks: BundleTask[];
+}
+
+interface BundleProject extends BundleRecord {
+  _id: unknown;
+  name: string;
+  importedFrom?: unknown;
+  milestones: BundleMilestone[];
+}
+
+interface BundleSession extends BundleRecord {
+  _id: unknown;
+  projectId: unknown;
+  milestoneId: string;
+  taskId: string;
+  status: string;
+  activities?: { metadata?: BundleRecord }[];
+}
+
+export interface DataBundle {
+  version: number;
+  exportedAt: string;
+  profile: {
+    displayName: string;
+    settings: BundleRecord;
+  };
+  projects: BundleProject[];
+  sessions: BundleSession[];
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  projects: { imported: number; removed: number };
+  sessions: { imported: number; skipped: number; removed: number };
+  settingsReplaced: boolean;
+  warnings: string[];
+}
+
+// Fields that belong to the owning account or the database rather than the data
+const OMITTED_FIELDS = ['userId', '__v'];
+
+const isRecord = (value: unknown): value is BundleRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const omit = (doc: BundleRecord, fields: string[]) =>
+  Object.fromEntries(Object.entries(doc).filter(([key]) => !fields.includes(key)));
+
+/**
+ * Build an export bundle from the user's profile, projects and sessions,
+ * given as plain objects. IDs are kept so the references between projects
+ * and sessions survive the round trip.
+ */
+export function buildExportBundle(
+  user: { displayName: string; settings: BundleRecord },
+  projects: BundleRecord[],
+  sessions: BundleRecord[],
+  now: Date
+) {
+  return {
+    version: BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    profile: {
+      displayName: user.displayName,
+      settings: user.settings
+    },
+    projects: projects.map(doc => omit(doc, OMITTED_FIELDS)),
+    sessions: sessions.map(doc => omit(doc, OMITTED_FIELDS))
+  };
+}
+
+const isValidDate = (value: unknown) =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+
+function validateBundleProject(project: unknown, index: number): string | null {
+  const label = `Project ${index + 1}`;
+
+  if (!isRecord(project) || typeof project.name !== 'string' || project._id == null) {
+    return `${label} must have an _id and a name`;
+  }
+  if (!Array.isArray(project.milestones)) {
+    return `${label} must have a list of milestones`;
+  }
+
+  for (const milestone of project.milestones) {
+    if (!isRecord(milestone) || typeof milestone.name !== 'string' || milestone._id == null ||
+        !Array.isArray(milestone.tasks)) {
+      return `${label} has a milestone without an _id, name or task list`;
+    }
+    for (const task of milestone.tasks) {
+      if (!isRecord(task) || typeof task.name !== 'string' || task._id == null) {
+        return `${label} has a task without an _id or name`;
+      }
+      if (task.dependsOn !== undefined && !Array.isArray(task.dependsOn)) {
+        return `${label} has a task whose dependencies are not a list`;
+      }
+    }
+  }
+
+  return null;
+}
+
+function validateBundleSession(session: unknown, index: number): string | null {
+  if (!isRecord(session) || session._id == null || session.projectId == null ||
+      typeof session.milestoneId !== 'string' || typeof session.taskId !== 'string') {
+    return `Session ${index + 1} must have an _id, projectId, milestoneId and taskId`;
+  }
+  if (!isValidDate(session.startTime)) {
+    return `Session ${index + 1} has an invalid start time`;
+  }
+  if (session.status === 'completed' &&
+      (!isValidDate(session.endTime) ||
+        new Date(session.endTime as string).getTime() <= new Date(session.startTime as string).getTime())) {
+    return `Session ${index + 1} is completed but has no valid end time after its start`;
+  }
+
+  return null;
+}
+
+/**
+ * ID a project was first exported under. Imports keep it on the new
+ * project, so a bundle merged again can be recognised.
+ */
+export const projectOrigin = (project: BundleProject) => String(project.importedFrom ?? project._id);
+
+/**
+ * Check the layout of an uploaded bundle. Returns the bundle, or an error
+ * message describing the first problem found.
+ */
+export function validateBundle(input: unknown): DataBundle | string {
+  if (!isRecord(input)) return "The bundle must be a JSON object";
+
+  if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 1) {
+    return "The bundle has no valid version";
+  }
+  if (input.version > BUNDLE_VERSION) {
+    return `Bundle version ${input.version} is newer than the supported version ${BUNDLE_VERSION}`;
+  }
+  if (!isRecord(input.profile) || !isRecord(input.profile.settings)) {
+    return "The bundle must include profile settings";
+  }
+  if (!Array.isArray(input.projects) || !Array.isArray(input.sessions)) {
+    return "The bundle must include lists of projects and sessions";
+  }
+
+  for (const [index, project] of input.projects.entries()) {
+    const error = validateBundleProject(project, index);
+    if (error) return error;
+  }
+  for (const [index, session] of input.sessions.entries()) {
+    const error = validateBundleSession(session, index);
+    if (error) return error;
+  }
+
+  return input as unknown as DataBundle;
+}
+
+/**
+ * Prepare a validated bundle for insertion under the given user. Every
+ * project, milestone, task and session gets a new ID, and the references
+ * between them (task dependencies, recurrence completions, note history,
+ * the sessions' milestoneId and taskId and the task IDs in activities) are
+ * rewritten to match. Projects whose origin is in importedOrigins are
+ * already in the account and are skipped with their sessions, as are
+ * sessions that are still running or whose task is not in the bundle, each
+ * with a warning.
+ */
+export function remapBundle(bundle: DataBundle, userId: string, importedOrigins = new Set<string>()) {
+  const projectIds = new Map<string, Types.ObjectId>();
+  const milestoneIds = new Map<string, Types.ObjectId>();
+  const taskIds = new Map<string, Types.ObjectId>();
+  const sessionIds = new Map<string, Types.ObjectId>();
+  const warnings: string[] = [];
+
+  // Milestone and task IDs are only unique within a project
+  const key = (projectId: unknown, id: unknown) => `${String(projectId)}:${String(id)}`;
+
+  const skippedProjectIds = new Set<string>();
+  const included = bundle.projects.filter(project => {
+    if (!importedOrigins.has(projectOrigin(project))) return true;
+
+    warnings.push(`Skipped project "${project.name}", which is already in your account`);
+    skippedProjectIds.add(String(project._id));
+    return false;
+  });
+
+  for (const project of included) {
+    projectIds.set(String(project._id), new Types.ObjectId());
+    for (const milestone of project.milestones) {
+      milestoneIds.set(key(project._id, milestone._id), new Types.ObjectId());
+      for (const task of milestone.tasks) {
+        taskIds.set(key(project._id, task._id), new Types.ObjectId());
+      }
+    }
+  }
+
+  const sessions = bundle.sessions.flatMap(session => {
+    const projectId = projectIds.get(String(session.projectId));
+    const milestoneId = milestoneIds.get(key(session.projectId, session.milestoneId));
+    const taskId = taskIds.get(key(session.projectId, session.taskId));
+
+    if (skippedProjectIds.has(String(session.projectId))) {
+      warnings.push(`Skipped session ${String(session._id)}, whose project is already in your account`);
+      return [];
+    }
+    if (session.status !== 'completed') {
+      warnings.push(`Skipped session ${String(session._id)}, which was still running when exported`);
+      return [];
+    }
+    if (!projectId || !milestoneId || !taskId) {
+      warnings.push(`Skipped session ${String(session._id)}, whose task is not in the bundle`);
+      return [];
+    }
+
+    const _id = new Types.ObjectId();
+    sessionIds.set(String(session._id), _id);
+
+    return [{
+      ...omit(session, OMITTED_FIELDS),
+      _id,
+      userId,
+      projectId,
+      milestoneId: String(milestoneId),
+      taskId: String(taskId),
+      // Status changes record the task they were made on
+      activities: (session.activities || []).map(activity => {
+        const activityTaskId = activity.metadata?.taskId;
+        const mapped = activityTaskId != null ? taskIds.get(key(session.projectId, activityTaskId)) : undefined;
+        return mapped ? { ...activity, metadata: { ...activity.metadata, taskId: String(mapped) } } : activity;
+      })
+    }];
+  });
+
+  const projects = included.map(project => ({
+    ...omit(project, OMITTED_FIELDS),
+    _id: projectIds.get(String(project._id)),
+    userId,
+    importedFrom: projectOrigin(project),
+    milestones: project.milestones.map(milestone => ({
+      ...milestone,
+      _id: milestoneIds.get(key(project._id, milestone._id)),
+      tasks: milestone.tasks.map(task => ({
+        ...task,
+        _id: taskIds.get(key(project._id, task._id)),
+        dependsOn: (task.dependsOn || []).flatMap(id => {
+          const mapped = taskIds.get(key(project._id, id));
+          if (!mapped) {
+            warnings.push(`Dropped a dependency of "${task.name}" on a task that is not in the bundle`);
+          }
+          return mapped ? [mapped] : [];
+        }),
+        // Checklist items get fresh IDs from the schema
+        checklist: (task.checklist || []).map(item => omit(item, ['_id'])),
+        // Earlier instances of a recurring task may no longer exist
+        completions: (task.completions || []).map(completion => ({
+          ...completion,
+          taskId: taskIds.get(key(project._id, completion.taskId)) ?? completion.taskId
+        })),
+        noteHistory: (task.noteHistory || []).map(entry => ({
+          ...entry,
+          sessionId: sessionIds.get(String(entry.sessionId)) ?? null
+        }))
+      }))
+    }))
+  }));
+
+  return { projects, sessions, skippedSessions: bundle.sessions.length - sessions.length, warnings };
+}
@@ -0,0 +1,43 @@
+/**
+ * Whether the runtime knows an IANA time zone name.
+ */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Date and time of an instant in a time zone, as "YYYY-MM-DD HH:mm".
+ */
+export function formatLocal(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+}
+
+/**
+ * Calendar day of an instant in a time zone, as "YYYY-MM-DD".
+ */
+export function localDay(date: Date, timeZone: string) {
+  return formatLocal(date, timeZone).slice(0, 10);
+}
+
+/**
+ * Day a due date falls on, as "YYYY-MM-DD". Due dates are stored at UTC
+ * midnight, so the UTC date is the due day.
+ */
+export const dueDay = (date: Date) => date.toISOString().slice(0, 10);
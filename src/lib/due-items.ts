@@ -0,0 +1,95 @@
+import { dueDay, localDay } from '@/lib/dates';
+
+type ItemStatus = 'not_started' | 'in_progress' | 'completed';
+type Priority = 'low' | 'medium' | 'high';
+
+interface DueProject {
+  _id: unknown;
+  name: string;
+  milestones: {
+    _id: unknown;
+    name: string;
+    status: ItemStatus;
+    dueDate?: Date | null;
+    priority?: Priority;
+    tasks: {
+      _id: unknown;
+      name: string;
+      status: ItemStatus;
+      dueDate?: Date | null;
+      priority?: Priority;
+    }[];
+  }[];
+}
+
+export interface DueItem {
+  type: 'milestone' | 'task';
+  projectId: string;
+  projectName: string;
+  milestoneId: string;
+  taskId: string | null;
+  name: string;
+  status: ItemStatus;
+  dueDate: Date;
+  priority: Priority;
+  overdue: boolean;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { high: 0, medium: 1, low: 2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Open milestones and tasks that are overdue or due within the given
+ * number of days, most urgent first: earliest due date, then priority.
+ * Days are counted in the given time zone, and items count as overdue
+ * once their due day has passed there.
+ */
+export function collectDueItems(projects: DueProject[], now: Date, days: number, timeZone = 'UTC'): DueItem[] {
+  const today = localDay(now, timeZone);
+  const horizon = dueDay(new Date(new Date(`${today}T00:00:00Z`).getTime() + days * DAY_MS));
+  const items: DueItem[] = [];
+
+  const add = (item: Omit<DueItem, 'overdue'>) => {
+    if (item.status === 'completed' || dueDay(item.dueDate) > horizon) return;
+    items.push({ ...item, overdue: dueDay(item.dueDate) < today });
+  };
+
+  for (const project of projects) {
+    for (const milestone of project.milestones) {
+      const base = {
+        projectId: String(project._id),
+        projectName: project.name,
+        milestoneId: String(milestone._id)
+      };
+
+      if (milestone.dueDate) {
+        add({
+          ...base,
+          type: 'milestone',
+          taskId: null,
+          name: milestone.name,
+          status: milestone.status,
+          dueDate: milestone.dueDate,
+          priority: milestone.priority || 'medium'
+        });
+      }
+
+      for (const task of milestone.tasks) {
+        if (!task.dueDate) continue;
+        add({
+          ...base,
+          type: 'task',
+          taskId: String(task._id),
+          name: task.name,
+          status: task.status,
+          dueDate: task.dueDate,
+          priority: task.priority || 'medium'
+        });
+      }
+    }
+  }
+
+  return items.sort((a, b) =>
+    a.dueDate.getTime() - b.dueDate.getTime() || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+}
@@ -0,0 +1,108 @@
+import type { TimeRollup } from '@/lib/time-rollup';
+
+interface ReportProject {
+  _id: unknown;
+  name: string;
+  category: string;
+  milestones: {
+    _id: unknown;
+    name: string;
+    estimateMinutes?: number | null;
+    tasks: {
+      _id: unknown;
+      name: string;
+      estimateMinutes?: number | null;
+    }[];
+  }[];
+}
+
+// Seconds estimated and tracked; variance is tracked minus estimated
+export interface EstimateComparison {
+  estimated: number | null;
+  tracked: number;
+  variance: number | null;
+}
+
+export interface ProjectEstimateReport extends EstimateComparison {
+  projectId: string;
+  name: string;
+  category: string;
+  milestones: (EstimateComparison & {
+    milestoneId: string;
+    name: string;
+    tasks: (EstimateComparison & { taskId: string; name: string })[];
+  })[];
+}
+
+export interface CategoryEstimateReport extends EstimateComparison {
+  category: string;
+  projects: number;
+}
+
+const compare = (estimated: number | null, tracked: number): EstimateComparison => ({
+  estimated,
+  tracked,
+  variance: estimated === null ? null : tracked - estimated
+});
+
+// Sum estimates, treating the total as unknown only when every part is unknown
+const sumEstimates = (values: (number | null)[]) =>
+  values.some(value => value !== null)
+    ? values.reduce<number>((acc, value) => acc + (value ?? 0), 0)
+    : null;
+
+/**
+ * Compare estimated against tracked time for a project. Milestones without
+ * an explicit estimate fall back to the sum of their task estimates.
+ */
+export function buildEstimateReport(project: ReportProject, rollup: TimeRollup): ProjectEstimateReport {
+  const milestones = project.milestones.map(milestone => {
+    const milestoneId = String(milestone._id);
+    const trackedTasks = rollup.milestones[milestoneId]?.tasks ?? {};
+
+    const tasks = milestone.tasks.map(task => {
+      const taskId = String(task._id);
+      const estimated = task.estimateMinutes != null ? task.estimateMinutes * 60 : null;
+      return { taskId, name: task.name, ...compare(estimated, trackedTasks[taskId] ?? 0) };
+    });
+
+    const estimated = milestone.estimateMinutes != null
+      ? milestone.estimateMinutes * 60
+      : sumEstimates(tasks.map(task => task.estimated));
+
+    return {
+      milestoneId,
+      name: milestone.name,
+      ...compare(estimated, rollup.milestones[milestoneId]?.total ?? 0),
+      tasks
+    };
+  });
+
+  return {
+    projectId: String(project._id),
+    name: project.name,
+    category: project.category,
+    ...compare(sumEstimates(milestones.map(milestone => milestone.estimated)), rollup.total),
+    milestones
+  };
+}
+
+/**
+ * Roll project reports up by category.
+ */
+export function summarizeByCategory(reports: ProjectEstimateReport[]): CategoryEstimateReport[] {
+  const categories = new Map<string, ProjectEstimateReport[]>();
+
+  for (const report of reports) {
+    categories.set(report.category, [...(categories.get(report.category) ?? []), report]);
+  }
+
+  return Array.from(categories, ([category, projects]) => ({
+    category,
+    projects: projects.length,
+    ...compare(
+      sumEstimates(projects.map(project => project.estimated)),
+      projects.reduce((acc, project) => acc + project.tracked, 0)
+    )
+  }));
+}
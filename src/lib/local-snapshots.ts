@@ -0,0 +1,37 @@
+// Snapshots kept on this device when the user stores them locally. The
+// server only records a marker, and the contents are looked up here by the
+// ID of the session that captured them.
+
+export interface LocalSnapshot {
+  apps: { name: string; path?: string }[];
+  browserTabs: { url: string; title: string }[];
+  workingDirectory: string;
+  context: string;
+}
+
+const STORAGE_PREFIX = 'blivalley:snapshot:';
+
+/**
+ * Keep a session's snapshot in local storage.
+ */
+export function saveLocalSnapshot(sessionId: string, snapshot: LocalSnapshot) {
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${sessionId}`, JSON.stringify(snapshot));
+  } catch (err) {
+    console.error('Error saving local snapshot:', err);
+  }
+}
+
+/**
+ * The snapshot a session saved on this device, or null when it was
+ * captured elsewhere.
+ */
+export function loadLocalSnapshot(sessionId: string): LocalSnapshot | null {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${sessionId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error('Error loading local snapshot:', err);
+    return null;
+  }
+}
@@ -0,0 +1,297 @@
+import { nextOccurrence, parseRecurrence, type Recurrence } from '@/lib/recurrence';
+
+type ItemStatus = 'not_started' | 'in_progress' | 'completed';
+
+interface StatusMilestone {
+  status: ItemStatus;
+  tasks: { status: ItemStatus }[];
+}
+
+interface ChecklistTask {
+  status: ItemStatus;
+  checklist: { done: boolean }[];
+}
+
+interface RecurringTask {
+  _id: unknown;
+  name: string;
+  status: ItemStatus;
+  notes: string;
+  estimateMinutes?: number | null;
+  weight?: number | null;
+  priority: string;
+  dependsOn: unknown[];
+  checklist: { text: string }[];
+  dueDate?: Date | null;
+  recurrence?: Recurrence | null;
+  completions: { taskId: unknown; completedAt: Date; dueDate: Date | null }[];
+}
+
+interface NotedTask {
+  lastSession?: { timestamp: Date; note: string };
+  noteHistory: { sessionId?: unknown; note: string; createdAt: Date }[];
+}
+
+interface DependencyTask {
+  _id: unknown;
+  name: string;
+  status: ItemStatus;
+  dependsOn?: unknown[];
+}
+
+interface DependencyProject {
+  milestones: { tasks: DependencyTask[] }[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+// Due dates must be parseable date strings, or null to clear them
+const isValidDueDate = (value: unknown) =>
+  value === null || (typeof value === 'string' && !isNaN(Date.parse(value)));
+
+// Estimates and weights must be non-negative numbers, or null to clear them
+const isValidSize = (value: unknown) =>
+  value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * Derive a milestone's status from its tasks. Milestones without tasks
+ * keep their current status.
+ */
+export function syncMilestoneStatus(milestone: StatusMilestone) {
+  if (milestone.tasks.length === 0) return;
+
+  if (milestone.tasks.every(t => t.status === 'completed')) {
+    milestone.status = 'completed';
+  } else if (milestone.tasks.some(t => t.status !== 'not_started')) {
+    milestone.status = 'in_progress';
+  } else {
+    milestone.status = 'not_started';
+  }
+}
+
+/**
+ * Derive a task's status from its checklist: checking every item completes
+ * the task and checking any item starts it. Blocked tasks are left alone.
+ */
+export function syncTaskStatusFromChecklist(task: ChecklistTask, blocked: boolean) {
+  if (task.checklist.length === 0 || blocked) return;
+
+  const doneCount = task.checklist.filter(item => item.done).length;
+
+  if (doneCount === task.checklist.length) {
+    task.status = 'completed';
+  } else if (doneCount > 0 || task.status === 'completed') {
+    task.status = 'in_progress';
+  }
+}
+
+/**
+ * Validate the editable fields of a checklist item. Returns an error
+ * message, or null when valid.
+ */
+export function validateChecklistItemInput(input: unknown, partial = false): string | null {
+  if (!isRecord(input)) return "Invalid checklist item";
+
+  if ((!partial || input.text !== undefined) &&
+      (typeof input.text !== 'string' || input.text.trim() === '')) {
+    return "Checklist item text is required";
+  }
+  if (input.done !== undefined && typeof input.done !== 'boolean') {
+    return "Checklist item done must be a boolean";
+  }
+
+  return null;
+}
+
+/**
+ * Validate the editable fields of a task. With partial set, missing fields
+ * are allowed so the input can be applied as a patch. Returns an error
+ * message, or null when the input is valid.
+ */
+export function validateTaskInput(input: unknown, partial = false): string | null {
+  if (!isRecord(input)) return "Invalid task data";
+
+  if ((!partial || input.name !== undefined) &&
+      (typeof input.name !== 'string' || input.name.trim() === '')) {
+    return "Task name is required";
+  }
+  if (input.notes !== undefined && typeof input.notes !== 'string') {
+    return "Task notes must be a string";
+  }
+  if (input.estimateMinutes !== undefined && !isValidSize(input.estimateMinutes)) {
+    return "Estimate must be a non-negative number of minutes or null";
+  }
+  if (input.weight !== undefined && !isValidSize(input.weight)) {
+    return "Weight must be a non-negative number or null";
+  }
+  if (input.dueDate !== undefined && !isValidDueDate(input.dueDate)) {
+    return "Due date must be a valid date or null";
+  }
+  if (input.priority !== undefined && !PRIORITIES.includes(input.priority as string)) {
+    return "Priority must be low, medium or high";
+  }
+  if (input.recurrence !== undefined) {
+    const recurrence = parseRecurrence(input.recurrence);
+    if (typeof recurrence === 'string') return recurrence;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the editable fields of a milestone, including any tasks given
+ * when it is created. Returns an error message, or null when valid.
+ */
+export function validateMilestoneInput(input: unknown, partial = false): string | null {
+  if (!isRecord(input)) return "Invalid milestone data";
+
+  if ((!partial || input.name !== undefined) &&
+      (typeof input.name !== 'string' || input.name.trim() === '')) {
+    return "Milestone name is required";
+  }
+  if (input.estimateMinutes !== undefined && !isValidSize(input.estimateMinutes)) {
+    return "Estimate must be a non-negative number of minutes or null";
+  }
+  if (input.dueDate !== undefined && !isValidDueDate(input.dueDate)) {
+    return "Due date must be a valid date or null";
+  }
+  if (input.priority !== undefined && !PRIORITIES.includes(input.priority as string)) {
+    return "Priority must be low, medium or high";
+  }
+  if (input.tasks !== undefined) {
+    if (partial || !Array.isArray(input.tasks)) return "Invalid milestone tasks";
+
+    for (const task of input.tasks) {
+      const error = validateTaskInput(task);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a value can be used as an array position in a move request.
+ */
+export function isValidPosition(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Prerequisites of a task that are not completed yet.
+ */
+export function getIncompletePrerequisites(project: DependencyProject, task: DependencyTask) {
+  const prerequisites = new Set((task.dependsOn || []).map(String));
+
+  return project.milestones
+    .flatMap(milestone => milestone.tasks)
+    .filter(t => prerequisites.has(String(t._id)) && t.status !== 'completed');
+}
+
+/**
+ * Check a new list of prerequisites for a task: every entry must be another
+ * task in the same project and the result must not contain a cycle.
+ * Returns an error message, or null when the dependencies can be saved.
+ */
+export function validateDependencies(project: DependencyProject, taskId: string, dependsOn: unknown): string | null {
+  if (!Array.isArray(dependsOn) || !dependsOn.every(id => typeof id === 'string')) {
+    return "Dependencies must be a list of task ids";
+  }
+
+  // Prerequisites of every task, with the proposed list in place
+  const graph = new Map<string, string[]>();
+  for (const task of project.milestones.flatMap(milestone => milestone.tasks)) {
+    graph.set(String(task._id), (task.dependsOn || []).map(String));
+  }
+  graph.set(taskId, dependsOn);
+
+  for (const id of dependsOn) {
+    if (id === taskId) return "A task cannot depend on itself";
+    if (!graph.has(id)) return "Dependencies must be tasks in the same project";
+  }
+
+  // Walk the prerequisites; reaching the task again means a cycle
+  const visited = new Set<string>();
+  const stack = [...dependsOn];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return "Dependencies cannot form a cycle";
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(graph.get(id) || []));
+  }
+
+  return null;
+}
+
+const copyRecurrence = (recurrence: Recurrence): Recurrence => ({
+  frequency: recurrence.frequency,
+  interval: recurrence.interval,
+  weekdays: [...recurrence.weekdays],
+  dayOfMonth: recurrence.dayOfMonth
+});
+
+// A reopened instance takes the rule back from the instance its completion
+// added, which is removed unless it has been started
+function reopenRecurrence(milestone: { tasks: unknown[] }, task: RecurringTask) {
+  const next = (milestone.tasks as RecurringTask[]).find(other => {
+    const latest = other.completions[other.completions.length - 1];
+    return other.recurrence && latest && String(latest.taskId) === String(task._id);
+  });
+  if (!next?.recurrence || next.status !== 'not_started') return;
+
+  task.recurrence = copyRecurrence(next.recurrence);
+  task.completions = next.completions.slice(0, -1);
+  milestone.tasks.splice(milestone.tasks.indexOf(next), 1);
+}
+
+/**
+ * Once a recurring task is completed, add its next instance right after it
+ * with the following due date. The rule and completion history move to the
+ * new instance, so the completed one stays as it is and is not repeated
+ * again. Reopening the completed instance undoes this while the new
+ * instance is still untouched, so completing it again adds no duplicate.
+ * Returns the new instance, or null for tasks that are open or not
+ * recurring.
+ */
+export function advanceRecurrence(milestone: { tasks: unknown[] }, task: RecurringTask, completedAt: Date) {
+  if (task.status !== 'completed') {
+    reopenRecurrence(milestone, task);
+    return null;
+  }
+  if (!task.recurrence) return null;
+
+  const recurrence = task.recurrence;
+  const dueDate = task.dueDate ?? null;
+  const position = milestone.tasks.indexOf(task) + 1;
+
+  milestone.tasks.splice(position, 0, {
+    name: task.name,
+    status: 'not_started',
+    notes: task.notes,
+    estimateMinutes: task.estimateMinutes ?? null,
+    weight: task.weight ?? null,
+    priority: task.priority,
+    dependsOn: task.dependsOn,
+    checklist: task.checklist.map(item => ({ text: item.text, done: false })),
+    dueDate: nextOccurrence(recurrence, dueDate, completedAt),
+    recurrence: copyRecurrence(recurrence),
+    completions: [...task.completions, { taskId: task._id, completedAt, dueDate }]
+  });
+
+  task.recurrence = null;
+
+  return milestone.tasks[position];
+}
+
+/**
+ * Record a session note on a task. The note becomes the task's latest
+ * session note and is appended to its note history.
+ */
+export function appendTaskNote(task: NotedTask, note: string, sessionId: unknown, at: Date) {
+  task.lastSession = { timestamp: at, note };
+  task.noteHistory.push({ sessionId: sessionId ?? null, note, createdAt: at });
+}
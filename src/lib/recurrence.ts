@@ -0,0 +1,175 @@
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  // Repeat every N days, weeks or months
+  interval: number;
+  // Days of the week for weekly rules, 0 = Sunday
+  weekdays: number[];
+  // Day of the month for monthly rules; defaults to the due date's day
+  dayOfMonth: number | null;
+}
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly'
+};
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Parse an RRULE-style string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH".
+ * Only FREQ, INTERVAL, BYDAY and BYMONTHDAY are supported.
+ */
+export function parseRRule(rule: string): Recurrence | string {
+  const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const recurrence: Partial<Recurrence> = { interval: 1, weekdays: [], dayOfMonth: null };
+
+  for (const part of parts) {
+    const [key, value = ''] = part.split('=').map(p => p.trim().toUpperCase());
+
+    switch (key) {
+      case 'FREQ':
+        if (!RRULE_FREQUENCIES[value]) return `Unsupported frequency: ${value}`;
+        recurrence.frequency = RRULE_FREQUENCIES[value];
+        break;
+      case 'INTERVAL':
+        recurrence.interval = Number(value);
+        break;
+      case 'BYDAY':
+        recurrence.weekdays = value.split(',').map(day => RRULE_WEEKDAYS.indexOf(day));
+        if (recurrence.weekdays.includes(-1)) return `Invalid BYDAY value: ${value}`;
+        break;
+      case 'BYMONTHDAY':
+        recurrence.dayOfMonth = Number(value);
+        break;
+      default:
+        return `Unsupported rule part: ${key}`;
+    }
+  }
+
+  if (!recurrence.frequency) return "Recurrence rule must include FREQ";
+
+  return normalizeRecurrence(recurrence);
+}
+
+/**
+ * Check a recurrence from a request body, given either as an object or as
+ * an RRULE-style string. Returns the normalized rule, null to clear it, or
+ * an error message.
+ */
+export function parseRecurrence(input: unknown): Recurrence | null | string {
+  if (input === null) return null;
+  if (typeof input === 'string') return parseRRule(input);
+  if (!isRecord(input)) return "Invalid recurrence";
+
+  return normalizeRecurrence({
+    frequency: input.frequency as RecurrenceFrequency,
+    interval: input.interval === undefined ? 1 : input.interval as number,
+    weekdays: input.weekdays === undefined ? [] : input.weekdays as number[],
+    dayOfMonth: input.dayOfMonth === undefined ? null : input.dayOfMonth as number | null
+  });
+}
+
+function normalizeRecurrence(recurrence: Partial<Recurrence>): Recurrence | string {
+  const { frequency, interval, weekdays, dayOfMonth } = recurrence;
+
+  if (!frequency || !Object.values(RRULE_FREQUENCIES).includes(frequency)) {
+    return "Recurrence frequency must be daily, weekly or monthly";
+  }
+  if (!isInteger(interval, 1, 365)) {
+    return "Recurrence interval must be a whole number between 1 and 365";
+  }
+  if (!Array.isArray(weekdays) || !weekdays.every(day => isInteger(day, 0, 6))) {
+    return "Recurrence weekdays must be numbers from 0 (Sunday) to 6";
+  }
+  if (dayOfMonth !== null && !isInteger(dayOfMonth, 1, 31)) {
+    return "Recurrence day of month must be between 1 and 31";
+  }
+
+  return {
+    frequency,
+    interval,
+    weekdays: frequency === 'weekly' ? Array.from(new Set(weekdays)).sort((a, b) => a - b) : [],
+    dayOfMonth: frequency === 'monthly' ? dayOfMonth ?? null : null
+  };
+}
+
+// Midnight UTC of the given date; due dates are stored as whole days
+const startOfDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Date in the month `months` after the given one, clamped to the month's length
+function addMonths(date: Date, months: number, day: number) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+// The occurrence directly after the given day
+function stepOccurrence(recurrence: Recurrence, from: Date, anchorDay: number) {
+  switch (recurrence.frequency) {
+    case 'daily':
+      return new Date(from.getTime() + recurrence.interval * DAY_MS);
+    case 'weekly': {
+      if (recurrence.weekdays.length === 0) {
+        return new Date(from.getTime() + recurrence.interval * 7 * DAY_MS);
+      }
+      // A later weekday in the same week, otherwise the first one N weeks on
+      const weekday = from.getUTCDay();
+      const later = recurrence.weekdays.find(day => day > weekday);
+      if (later !== undefined) {
+        return new Date(from.getTime() + (later - weekday) * DAY_MS);
+      }
+      const weekStart = from.getTime() - weekday * DAY_MS;
+      return new Date(weekStart + (recurrence.interval * 7 + recurrence.weekdays[0]) * DAY_MS);
+    }
+    case 'monthly':
+      return addMonths(from, recurrence.interval, recurrence.dayOfMonth ?? anchorDay);
+  }
+}
+
+/**
+ * Due date of the next instance of a recurring task: the first occurrence
+ * after the current due date that also falls after the completion day.
+ */
+export function nextOccurrence(recurrence: Recurrence, dueDate: Date | null, completedAt: Date) {
+  const completedDay = startOfDay(completedAt);
+  const anchor = startOfDay(dueDate ?? completedAt);
+  let next = stepOccurrence(recurrence, anchor, anchor.getUTCDate());
+
+  while (next.getTime() <= completedDay.getTime()) {
+    next = stepOccurrence(recurrence, next, anchor.getUTCDate());
+  }
+
+  return next;
+}
+
+/**
+ * Short description of a rule, e.g. "Every 2 weeks on Mon, Thu".
+ */
+export function describeRecurrence(recurrence: Recurrence) {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[recurrence.frequency];
+  let description = recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`;
+
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays.length > 0) {
+    description += ` on ${recurrence.weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (recurrence.frequency === 'monthly' && recurrence.dayOfMonth) {
+    description += ` on day ${recurrence.dayOfMonth}`;
+  }
+
+  return description;
+}
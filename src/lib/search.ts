@@ -0,0 +1,186 @@
+export type SearchResultType = 'project' | 'milestone' | 'task' | 'task_note' | 'session_note';
+
+export interface SearchableProject {
+  _id: unknown;
+  name: string;
+  description: string;
+  milestones: {
+    _id: unknown;
+    name: string;
+    tasks: {
+      _id: unknown;
+      name: string;
+      notes: string;
+      noteHistory?: { sessionId?: unknown; note: string }[];
+    }[];
+  }[];
+}
+
+export interface SearchableSession {
+  _id: unknown;
+  projectId: unknown;
+  milestoneId: string;
+  taskId: string;
+  note: string;
+  activities?: { action: string; metadata?: { note?: unknown } }[];
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  score: number;
+  projectId: string;
+  projectName: string;
+  milestoneId?: string;
+  taskId?: string;
+  sessionId?: string;
+  title: string;
+  snippet: string;
+}
+
+// Characters of context kept around the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Split a search query into lowercase words, dropping quotes and operators
+ * used by Mongo text search.
+ */
+export function parseSearchTerms(query: string) {
+  return query
+    .toLowerCase()
+    .split(/[\s"]+/)
+    .map(term => term.replace(/^-/, ''))
+    .filter(term => term.length > 0);
+}
+
+const matches = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.some(term => lower.includes(term));
+};
+
+/**
+ * Cut a snippet of text around the first search term it contains.
+ */
+export function buildSnippet(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  const index = Math.min(...terms.map(term => lower.indexOf(term)).filter(i => i >= 0));
+
+  if (!Number.isFinite(index) || text.length <= SNIPPET_CONTEXT * 2) {
+    return text.slice(0, SNIPPET_CONTEXT * 2);
+  }
+
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Typed results for a project found by text search: the project itself and
+ * each milestone, task, task note and note history entry containing a
+ * search term. History entries of sessions in foundSessionIds are left out,
+ * as those sessions are already results; the rest are added to the set so
+ * each session is listed once. Text search matches word stems, so a project
+ * that matched without any field holding a term verbatim is still returned
+ * as a project result.
+ */
+export function collectProjectResults(
+  project: SearchableProject,
+  terms: string[],
+  score: number,
+  foundSessionIds = new Set<string>()
+): SearchResult[] {
+  const base = { projectId: String(project._id), projectName: project.name };
+  const results: SearchResult[] = [];
+
+  for (const milestone of project.milestones) {
+    const milestoneId = String(milestone._id);
+
+    if (matches(milestone.name, terms)) {
+      results.push({ ...base, type: 'milestone', score, milestoneId, title: milestone.name, snippet: '' });
+    }
+
+    for (const task of milestone.tasks) {
+      const taskId = String(task._id);
+
+      if (matches(task.name, terms)) {
+        results.push({ ...base, type: 'task', score, milestoneId, taskId, title: task.name, snippet: milestone.name });
+      }
+      if (task.notes && matches(task.notes, terms)) {
+        results.push({
+          ...base,
+          type: 'task_note',
+          score,
+          milestoneId,
+          taskId,
+          title: task.name,
+          snippet: buildSnippet(task.notes, terms)
+        });
+      }
+
+      for (const entry of task.noteHistory || []) {
+        if (!matches(entry.note, terms)) continue;
+
+        // Entries kept without their session, e.g. in a cloned project, are task notes
+        const sessionId = entry.sessionId ? String(entry.sessionId) : undefined;
+        if (sessionId) {
+          if (foundSessionIds.has(sessionId)) continue;
+          foundSessionIds.add(sessionId);
+        }
+
+        results.push({
+          ...base,
+          type: sessionId ? 'session_note' : 'task_note',
+          score,
+          milestoneId,
+          taskId,
+          sessionId,
+          title: task.name,
+          snippet: buildSnippet(entry.note, terms)
+        });
+      }
+    }
+  }
+
+  if (results.length === 0 || matches(`${project.name} ${project.description}`, terms)) {
+    results.unshift({
+      ...base,
+      type: 'project',
+      score,
+      title: project.name,
+      snippet: buildSnippet(project.description, terms)
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Result for a session found by text search on its note or the notes added
+ * during it, or null when its project is unavailable.
+ */
+export function toSessionResult(
+  sessionData: SearchableSession,
+  project: SearchableProject | undefined,
+  terms: string[],
+  score: number
+): SearchResult | null {
+  if (!project) return null;
+
+  const milestone = project.milestones.find(m => String(m._id) === sessionData.milestoneId);
+  const task = milestone?.tasks.find(t => String(t._id) === sessionData.taskId);
+  const addedNotes = (sessionData.activities || [])
+    .filter(activity => activity.action === 'note_added' && typeof activity.metadata?.note === 'string')
+    .map(activity => activity.metadata!.note as string);
+  const matchedNote = [sessionData.note, ...addedNotes].find(note => matches(note, terms)) ?? sessionData.note;
+
+  return {
+    type: 'session_note',
+    score,
+    projectId: String(project._id),
+    projectName: project.name,
+    milestoneId: sessionData.milestoneId,
+    taskId: sessionData.taskId,
+    sessionId: String(sessionData._id),
+    title: task?.name || 'Deleted task',
+    snippet: buildSnippet(matchedNote, terms)
+  };
+}
@@ -0,0 +1,86 @@
+type DateLike = Date | string;
+
+interface TimedSegment {
+  type: 'active' | 'paused';
+  startTime: DateLike;
+  endTime?: DateLike | null;
+}
+
+interface TimedSession {
+  startTime: DateLike;
+  endTime?: DateLike | null;
+  segments?: TimedSegment[];
+}
+
+const toTime = (value: DateLike) => new Date(value).getTime();
+
+/**
+ * Close the currently open segment, if any, at the given time.
+ */
+export function closeOpenSegment(segments: TimedSegment[], at: Date) {
+  const openSegment = segments[segments.length - 1];
+  if (openSegment && !openSegment.endTime) {
+    openSegment.endTime = at;
+  }
+}
+
+/**
+ * Fit a session's segments to new start and end times. Segments falling
+ * outside the range are dropped and the outer ones stretched to its edges.
+ */
+export function retimeSegments(segments: TimedSegment[], start: Date, end?: Date): TimedSegment[] {
+  const startMs = start.getTime();
+  const endMs = end ? end.getTime() : Infinity;
+
+  const kept: TimedSegment[] = segments
+    .filter(segment => toTime(segment.startTime) < endMs && (!segment.endTime || toTime(segment.endTime) > startMs))
+    .map(segment => ({ type: segment.type, startTime: segment.startTime, endTime: segment.endTime }));
+
+  if (kept.length === 0) {
+    return [{ type: 'active', startTime: start, endTime: end }];
+  }
+
+  kept[0].startTime = start;
+  if (end) {
+    kept[kept.length - 1].endTime = end;
+  }
+
+  return kept;
+}
+
+/**
+ * Tracked time of a session in seconds. Paused segments are left out.
+ * Sessions created before segments existed count from start to end.
+ */
+export function getActiveDuration(session: TimedSession, now: Date = new Date()) {
+  const end = session.endTime ? toTime(session.endTime) : now.getTime();
+
+  if (!session.segments || session.segments.length === 0) {
+    return Math.max(0, Math.floor((end - toTime(session.startTime)) / 1000));
+  }
+
+  const activeMs = session.segments
+    .filter(segment => segment.type === 'active')
+    .reduce((acc, segment) => {
+      const segmentEnd = segment.endTime ? toTime(segment.endTime) : end;
+      return acc + Math.max(0, segmentEnd - toTime(segment.startTime));
+    }, 0);
+
+  return Math.floor(activeMs / 1000);
+}
+
+/**
+ * Human readable duration, e.g. "1h 05m" or "12m".
+ */
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m`;
+  }
+  return `${seconds}s`;
+}
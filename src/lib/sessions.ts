@@ -0,0 +1,109 @@
+import Session, { SessionDocument } from '@/models/Session';
+import User from '@/models/User';
+import { closeOpenSegment, getActiveDuration } from '@/lib/session-time';
+
+/**
+ * Find one of the user's sessions overlapping the given time range.
+ * Sessions that are still open count as running until now.
+ */
+export async function findOverlappingSession(
+  userId: string,
+  start: Date,
+  end: Date,
+  excludeId?: string
+) {
+  const query: Record<string, unknown> = {
+    userId,
+    startTime: { $lt: end },
+    $or: [{ endTime: { $gt: start } }, { endTime: null }]
+  };
+
+  if (excludeId) {
+    query._id = { $ne: excludeId };
+  }
+
+  return Session.findOne(query);
+}
+
+/**
+ * Parse a date from a request body, returning null if it is missing or invalid.
+ */
+export function parseDate(value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Close the running segment of an active session and open a break.
+ */
+export function pauseSession(
+  sessionData: SessionDocument,
+  at: Date,
+  metadata: Record<string, unknown> = {}
+) {
+  // Sessions started before segments existed have one implicit active segment
+  if (sessionData.segments.length === 0) {
+    sessionData.segments.push({ type: 'active', startTime: sessionData.startTime });
+  }
+
+  closeOpenSegment(sessionData.segments, at);
+  sessionData.segments.push({ type: 'paused', startTime: at });
+  sessionData.status = 'paused';
+  sessionData.duration = getActiveDuration(sessionData, at);
+  sessionData.activities.push({
+    timestamp: at,
+    action: 'pause',
+    metadata: { ...metadata, duration: sessionData.duration }
+  });
+}
+
+/**
+ * Auto-pause or auto-end the user's active sessions that have not sent a
+ * heartbeat within their idle threshold. The idle time is trimmed off by
+ * stopping the session at its last heartbeat.
+ */
+export async function applyIdleTimeouts(userId: string) {
+  const user = await User.findById(userId).select('settings.idleDetection');
+  const idleDetection = user?.settings?.idleDetection;
+
+  if (!idleDetection?.enabled) {
+    return;
+  }
+
+  const now = Date.now();
+  const thresholdMs = idleDetection.thresholdMinutes * 60 * 1000;
+  const activeSessions = await Session.find({ userId, status: 'active' });
+
+  for (const sessionData of activeSessions) {
+    // A resumed session counts as alive from the moment it was resumed
+    const lastSegment = sessionData.segments[sessionData.segments.length - 1];
+    const lastSeen = new Date(Math.max(
+      (sessionData.lastHeartbeatAt || sessionData.startTime).getTime(),
+      lastSegment ? lastSegment.startTime.getTime() : 0
+    ));
+
+    if (now - lastSeen.getTime() < thresholdMs) {
+      continue;
+    }
+
+    if (idleDetection.action === 'end') {
+      closeOpenSegment(sessionData.segments, lastSeen);
+      sessionData.status = 'completed';
+      sessionData.endTime = lastSeen;
+      sessionData.duration = getActiveDuration(sessionData);
+      sessionData.activities.push({
+        timestamp: lastSeen,
+        action: 'end',
+        metadata: { auto: true, reason: 'idle', duration: sessionData.duration }
+      });
+    } else {
+      pauseSession(sessionData, lastSeen, { auto: true, reason: 'idle' });
+    }
+
+    await sessionData.save();
+  }
+}
@@ -0,0 +1,72 @@
+import type { SessionSnapshot } from '@/models/Session';
+import type { UserDocument } from '@/models/User';
+
+type SessionCaptureSettings = UserDocument['settings']['sessionCapture'];
+
+interface SnapshotInput {
+  apps?: unknown;
+  browserTabs?: unknown;
+  workingDirectory?: unknown;
+  context?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * The parts of a snapshot payload the user's capture settings allow:
+ * apps and browser tabs are left out unless their capture is on.
+ */
+export function captureContents(input: SnapshotInput, capture: SessionCaptureSettings) {
+  const { apps, browserTabs, workingDirectory, context } = input;
+
+  return {
+    apps: capture.captureApps && Array.isArray(apps)
+      ? apps
+          .filter(isRecord)
+          .filter(app => asString(app.name) !== '')
+          .map(app => ({ name: asString(app.name), path: asString(app.path) || undefined }))
+      : [],
+    browserTabs: capture.captureBrowsers && Array.isArray(browserTabs)
+      ? browserTabs
+          .filter(isRecord)
+          .filter(tab => asString(tab.url) !== '')
+          .map(tab => ({ url: asString(tab.url), title: asString(tab.title) }))
+      : [],
+    workingDirectory: asString(workingDirectory),
+    context: asString(context)
+  };
+}
+
+/**
+ * Build the snapshot to store on a session from the client payload,
+ * honouring the user's capture settings. Returns null when nothing
+ * should be saved.
+ */
+export function buildSnapshot(input: unknown, capture: SessionCaptureSettings): SessionSnapshot | null {
+  if (!isRecord(input) || !capture.enabled || capture.saveLocation === 'none') {
+    return null;
+  }
+
+  const capturedAt = new Date();
+
+  // Local snapshots never leave the device, so only keep a marker
+  if (capture.saveLocation === 'local') {
+    return {
+      location: 'local',
+      capturedAt,
+      apps: [],
+      browserTabs: [],
+      workingDirectory: '',
+      context: ''
+    };
+  }
+
+  return {
+    location: 'cloud',
+    capturedAt,
+    ...captureContents(input, capture)
+  };
+}
@@ -0,0 +1,425 @@
+import type { TemplateMilestone, TemplateTask } from '@/models/Template';
+import { parseRecurrence, type Recurrence } from '@/lib/recurrence';
+
+type Priority = 'low' | 'medium' | 'high';
+
+export const CATEGORIES = ['design', 'development', 'writing', 'marketing', 'business', 'education', 'personal', 'home', 'other'];
+
+// Prefix marking the IDs of built-in templates, which are read-only
+export const BUILT_IN_PREFIX = 'builtin:';
+
+export interface TemplateStructure {
+  name: string;
+  description: string;
+  category: string;
+  deadlineOffsetDays?: number | null;
+  milestones: TemplateMilestone[];
+}
+
+export interface BuiltInTemplate extends TemplateStructure {
+  _id: string;
+  builtIn: true;
+}
+
+interface SourceProject {
+  name: string;
+  description: string;
+  category: string;
+  createdAt: Date;
+  deadline?: Date | null;
+  milestones: {
+    name: string;
+    estimateMinutes?: number | null;
+    priority?: Priority;
+    dueDate?: Date | null;
+    tasks: {
+      _id: unknown;
+      name: string;
+      estimateMinutes?: number | null;
+      weight?: number | null;
+      priority?: Priority;
+      dueDate?: Date | null;
+      checklist?: { text: string }[];
+      recurrence?: Recurrence | null;
+      completions?: { taskId: unknown }[];
+    }[];
+  }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+// Offsets and estimates must be non-negative numbers, or null to leave them unset
+const isValidAmount = (value: unknown) =>
+  value == null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+// Midnight UTC of the day a date falls on
+const startOfDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const toOffset = (date: Date | null | undefined, start: Date) =>
+  date ? Math.max(0, Math.round((startOfDay(date).getTime() - start.getTime()) / DAY_MS)) : null;
+
+const fromOffset = (offset: number | null | undefined, start: Date) =>
+  offset != null ? new Date(start.getTime() + offset * DAY_MS) : null;
+
+/**
+ * Build a template from a project's structure. Statuses, notes, sessions and
+ * dependencies are left out, and due dates become offsets in days from the
+ * day the project was created. Recurring tasks keep their rule, and their
+ * past completed instances are left out.
+ */
+export function templateFromProject(project: SourceProject, name?: string): TemplateStructure {
+  const start = startOfDay(project.createdAt);
+  const pastInstances = new Set(project.milestones.flatMap(milestone =>
+    milestone.tasks.flatMap(task => (task.completions || []).map(completion => String(completion.taskId)))));
+
+  return {
+    name: name?.trim() || project.name,
+    description: project.description,
+    category: project.category,
+    deadlineOffsetDays: toOffset(project.deadline, start),
+    milestones: project.milestones.map(milestone => ({
+      name: milestone.name,
+      estimateMinutes: milestone.estimateMinutes ?? null,
+      priority: milestone.priority || 'medium',
+      dueOffsetDays: toOffset(milestone.dueDate, start),
+      tasks: milestone.tasks
+        .filter(task => !pastInstances.has(String(task._id)))
+        .map(task => ({
+          name: task.name,
+          estimateMinutes: task.estimateMinutes ?? null,
+          weight: task.weight ?? null,
+          priority: task.priority || 'medium',
+          dueOffsetDays: toOffset(task.dueDate, start),
+          checklist: (task.checklist || []).map(item => item.text),
+          recurrence: task.recurrence ?? null
+        }))
+    }))
+  };
+}
+
+/**
+ * Milestones for a new project created from a template, with due dates
+ * counted from the given start date.
+ */
+export function instantiateTemplate(template: TemplateStructure, startDate: Date) {
+  const start = startOfDay(startDate);
+
+  return {
+    deadline: fromOffset(template.deadlineOffsetDays, start),
+    milestones: template.milestones.map(milestone => ({
+      name: milestone.name,
+      status: 'not_started',
+      estimateMinutes: milestone.estimateMinutes ?? null,
+      priority: milestone.priority,
+      dueDate: fromOffset(milestone.dueOffsetDays, start),
+      tasks: milestone.tasks.map(task => ({
+        name: task.name,
+        status: 'not_started',
+        notes: '',
+        estimateMinutes: task.estimateMinutes ?? null,
+        weight: task.weight ?? null,
+        priority: task.priority,
+        dueDate: fromOffset(task.dueOffsetDays, start),
+        checklist: task.checklist.map(text => ({ text, done: false })),
+        recurrence: task.recurrence ?? null
+      }))
+    }))
+  };
+}
+
+function validateTemplateTask(input: unknown): string | null {
+  if (!isRecord(input)) return "Invalid template task";
+
+  if (typeof input.name !== 'string' || input.name.trim() === '') {
+    return "Task name is required";
+  }
+  if (!isValidAmount(input.estimateMinutes) || !isValidAmount(input.weight) || !isValidAmount(input.dueOffsetDays)) {
+    return "Estimates, weights and due offsets must be non-negative numbers";
+  }
+  if (input.priority !== undefined && !PRIORITIES.includes(input.priority as string)) {
+    return "Priority must be low, medium or high";
+  }
+  if (input.checklist !== undefined &&
+      (!Array.isArray(input.checklist) || input.checklist.some(item => typeof item !== 'string'))) {
+    return "Checklist must be a list of strings";
+  }
+  // Rules are stored as given, so RRULE strings are not accepted here
+  if (input.recurrence != null) {
+    const recurrence = isRecord(input.recurrence) ? parseRecurrence(input.recurrence) : "Invalid recurrence";
+    if (typeof recurrence === 'string') return recurrence;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a template's fields. With partial set, missing fields are
+ * allowed so the input can be applied as a patch. Returns an error
+ * message, or null when the input is valid.
+ */
+export function validateTemplateInput(input: unknown, partial = false): string | null {
+  if (!isRecord(input)) return "Invalid template data";
+
+  if ((!partial || input.name !== undefined) &&
+      (typeof input.name !== 'string' || input.name.trim() === '')) {
+    return "Template name is required";
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    return "Template description must be a string";
+  }
+  if (input.category !== undefined && !CATEGORIES.includes(input.category as string)) {
+    return "Invalid category";
+  }
+  if (!isValidAmount(input.deadlineOffsetDays)) {
+    return "Deadline offset must be a non-negative number of days";
+  }
+  if (!partial || input.milestones !== undefined) {
+    if (!Array.isArray(input.milestones)) return "Template milestones are required";
+
+    for (const milestone of input.milestones) {
+      if (!isRecord(milestone) || typeof milestone.name !== 'string' || milestone.name.trim() === '') {
+        return "Milestone name is required";
+      }
+      if (!isValidAmount(milestone.estimateMinutes) || !isValidAmount(milestone.dueOffsetDays)) {
+        return "Estimates and due offsets must be non-negative numbers";
+      }
+      if (milestone.priority !== undefined && !PRIORITIES.includes(milestone.priority as string)) {
+        return "Priority must be low, medium or high";
+      }
+      if (milestone.tasks !== undefined && !Array.isArray(milestone.tasks)) {
+        return "Invalid milestone tasks";
+      }
+      for (const task of (milestone.tasks as unknown[]) || []) {
+        const error = validateTemplateTask(task);
+        if (error) return error;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Shorthands for writing the built-in templates
+const templateTask = (name: string, hours: number | null = null, dueOffsetDays: number | null = null): TemplateTask => ({
+  name,
+  estimateMinutes: hours != null ? hours * 60 : null,
+  weight: null,
+  priority: 'medium',
+  dueOffsetDays,
+  checklist: []
+});
+
+const templateMilestone = (name: string, dueOffsetDays: number | null, tasks: TemplateTask[]): TemplateMilestone => ({
+  name,
+  estimateMinutes: null,
+  priority: 'medium',
+  dueOffsetDays,
+  tasks
+});
+
+const builtIn = (slug: string, template: TemplateStructure): BuiltInTemplate => ({
+  _id: `${BUILT_IN_PREFIX}${slug}`,
+  builtIn: true,
+  ...template
+});
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  builtIn('design-brand-identity', {
+    name: 'Brand identity',
+    description: 'Logo, colors and typography for a new brand',
+    category: 'design',
+    deadlineOffsetDays: 28,
+    milestones: [
+      templateMilestone('Discovery', 5, [templateTask('Collect references', 2, 2), templateTask('Write the creative brief', 2, 5)]),
+      templateMilestone('Concepts', 14, [templateTask('Sketch logo concepts', 6, 10), templateTask('Pick a color palette', 2, 12), templateTask('Choose typefaces', 2, 14)]),
+      templateMilestone('Delivery', 28, [templateTask('Refine the chosen concept', 6, 21), templateTask('Write the brand guidelines', 4, 26), templateTask('Export final assets', 2, 28)])
+    ]
+  }),
+  builtIn('design-ui-redesign', {
+    name: 'UI redesign',
+    description: 'Redesign of an app or website interface',
+    category: 'design',
+    deadlineOffsetDays: 42,
+    milestones: [
+      templateMilestone('Research', 7, [templateTask('Audit the current interface', 4, 3), templateTask('Interview users', 6, 7)]),
+      templateMilestone('Wireframes', 21, [templateTask('Map the key flows', 4, 12), templateTask('Wireframe the main screens', 8, 21)]),
+      templateMilestone('Visual design', 42, [templateTask('Build the component library', 10, 30), templateTask('Design high-fidelity screens', 12, 38), templateTask('Hand off to development', 2, 42)])
+    ]
+  }),
+  builtIn('development-web-app', {
+    name: 'Web app',
+    description: 'Build and ship a web application',
+    category: 'development',
+    deadlineOffsetDays: 56,
+    milestones: [
+      templateMilestone('Planning', 7, [templateTask('Write the requirements', 4, 3), templateTask('Design the data model', 3, 7)]),
+      templateMilestone('Build', 42, [templateTask('Set up the project', 2, 9), templateTask('Implement authentication', 6, 16), templateTask('Build the core features', 30, 38), templateTask('Write tests', 8, 42)]),
+      templateMilestone('Launch', 56, [templateTask('Set up hosting', 3, 47), templateTask('Fix launch blockers', 8, 53), templateTask('Release', 1, 56)])
+    ]
+  }),
+  builtIn('development-feature', {
+    name: 'Feature release',
+    description: 'Take a single feature from spec to release',
+    category: 'development',
+    deadlineOffsetDays: 14,
+    milestones: [
+      templateMilestone('Spec', 2, [templateTask('Write the spec', 2, 1), templateTask('Review the spec', 1, 2)]),
+      templateMilestone('Implementation', 10, [templateTask('Implement the feature', 12, 8), templateTask('Write tests', 4, 10)]),
+      templateMilestone('Release', 14, [templateTask('Code review', 2, 12), templateTask('Update the docs', 1, 13), templateTask('Ship it', 1, 14)])
+    ]
+  }),
+  builtIn('writing-article', {
+    name: 'Article',
+    description: 'Research, draft and publish an article',
+    category: 'writing',
+    deadlineOffsetDays: 14,
+    milestones: [
+      templateMilestone('Research', 4, [templateTask('Gather sources', 3, 2), templateTask('Outline the article', 1, 4)]),
+      templateMilestone('Drafting', 10, [templateTask('Write the first draft', 6, 8), templateTask('Revise the draft', 3, 10)]),
+      templateMilestone('Publishing', 14, [templateTask('Proofread', 1, 12), templateTask('Publish and share', 1, 14)])
+    ]
+  }),
+  builtIn('writing-book', {
+    name: 'Book draft',
+    description: 'Plan and write the first draft of a book',
+    category: 'writing',
+    deadlineOffsetDays: 180,
+    milestones: [
+      templateMilestone('Planning', 14, [templateTask('Define the premise'), templateTask('Outline the chapters')]),
+      templateMilestone('First draft', 150, [templateTask('Write the first half'), templateTask('Write the second half')]),
+      templateMilestone('Revision', 180, [templateTask('Read the draft through'), templateTask('Revise structure'), templateTask('Send to beta readers')])
+    ]
+  }),
+  builtIn('marketing-campaign', {
+    name: 'Marketing campaign',
+    description: 'Plan, run and review a campaign',
+    category: 'marketing',
+    deadlineOffsetDays: 30,
+    milestones: [
+      templateMilestone('Strategy', 5, [templateTask('Define goals and audience', 2, 2), templateTask('Choose channels', 1, 5)]),
+      templateMilestone('Content', 15, [templateTask('Write copy', 4, 10), templateTask('Produce visuals', 6, 15)]),
+      templateMilestone('Launch and review', 30, [templateTask('Schedule posts', 2, 17), templateTask('Track results', 2, 27), templateTask('Write a retrospective', 1, 30)])
+    ]
+  }),
+  builtIn('marketing-product-launch', {
+    name: 'Product launch',
+    description: 'Announce a new product',
+    category: 'marketing',
+    deadlineOffsetDays: 21,
+    milestones: [
+      templateMilestone('Preparation', 10, [templateTask('Write the positioning', 3, 4), templateTask('Build the landing page', 6, 10)]),
+      templateMilestone('Launch', 21, [templateTask('Email the mailing list', 1, 14), templateTask('Post on social media', 2, 14), templateTask('Reach out to press', 3, 21)])
+    ]
+  }),
+  builtIn('business-plan', {
+    name: 'Business plan',
+    description: 'Write a business plan',
+    category: 'business',
+    deadlineOffsetDays: 30,
+    milestones: [
+      templateMilestone('Research', 10, [templateTask('Analyze the market', 6, 5), templateTask('Study competitors', 4, 10)]),
+      templateMilestone('Writing', 25, [templateTask('Describe the product and model', 4, 15), templateTask('Build the financial forecast', 8, 22), templateTask('Write the executive summary', 2, 25)]),
+      templateMilestone('Review', 30, [templateTask('Get feedback', 2, 28), templateTask('Finalize the plan', 2, 30)])
+    ]
+  }),
+  builtIn('business-quarterly-review', {
+    name: 'Quarterly review',
+    description: 'Review the quarter and plan the next one',
+    category: 'business',
+    deadlineOffsetDays: 7,
+    milestones: [
+      templateMilestone('Review', 3, [templateTask('Collect metrics', 2, 1), templateTask('Compare against goals', 2, 3)]),
+      templateMilestone('Planning', 7, [templateTask('Set next quarter goals', 2, 5), templateTask('Share the plan', 1, 7)])
+    ]
+  }),
+  builtIn('education-course', {
+    name: 'Online course',
+    description: 'Work through a course from start to finish',
+    category: 'education',
+    deadlineOffsetDays: 60,
+    milestones: [
+      templateMilestone('Getting started', 3, [templateTask('Set a study schedule', 1, 1), templateTask('Gather materials', 1, 3)]),
+      templateMilestone('Coursework', 50, [templateTask('Complete the first half'), templateTask('Complete the second half')]),
+      templateMilestone('Wrap up', 60, [templateTask('Final project', 10, 57), templateTask('Review notes', 2, 60)])
+    ]
+  }),
+  builtIn('education-exam-prep', {
+    name: 'Exam preparation',
+    description: 'Prepare for an exam',
+    category: 'education',
+    deadlineOffsetDays: 28,
+    milestones: [
+      templateMilestone('Review', 14, [templateTask('List the topics', 1, 1), templateTask('Review each topic', 12, 14)]),
+      templateMilestone('Practice', 28, [templateTask('Do practice exams', 8, 24), templateTask('Revisit weak topics', 4, 27)])
+    ]
+  }),
+  builtIn('personal-fitness', {
+    name: 'Fitness goal',
+    description: 'Work towards a fitness goal',
+    category: 'personal',
+    deadlineOffsetDays: 84,
+    milestones: [
+      templateMilestone('Baseline', 7, [templateTask('Measure where you are', 1, 1), templateTask('Set a training plan', 1, 7)]),
+      templateMilestone('Training', 84, [templateTask('Weeks 1-4'), templateTask('Weeks 5-8'), templateTask('Weeks 9-12')])
+    ]
+  }),
+  builtIn('personal-trip', {
+    name: 'Trip planning',
+    description: 'Plan a trip',
+    category: 'personal',
+    deadlineOffsetDays: 30,
+    milestones: [
+      templateMilestone('Bookings', 14, [templateTask('Choose dates and destination', 1, 3), templateTask('Book travel', 2, 10), templateTask('Book accommodation', 2, 14)]),
+      templateMilestone('Preparation', 30, [templateTask('Plan the itinerary', 3, 25), templateTask('Pack', 2, 29)])
+    ]
+  }),
+  builtIn('home-renovation', {
+    name: 'Room renovation',
+    description: 'Renovate a room',
+    category: 'home',
+    deadlineOffsetDays: 60,
+    milestones: [
+      templateMilestone('Planning', 14, [templateTask('Measure the room', 1, 2), templateTask('Set a budget', 1, 5), templateTask('Get quotes', 3, 14)]),
+      templateMilestone('Work', 50, [templateTask('Buy materials', 3, 21), templateTask('Demolition', 8, 28), templateTask('Build and finish', 24, 50)]),
+      templateMilestone('Finishing', 60, [templateTask('Clean up', 3, 55), templateTask('Decorate', 4, 60)])
+    ]
+  }),
+  builtIn('home-move', {
+    name: 'Moving house',
+    description: 'Plan a move',
+    category: 'home',
+    deadlineOffsetDays: 30,
+    milestones: [
+      templateMilestone('Before the move', 25, [templateTask('Book movers', 1, 7), templateTask('Declutter', 6, 18), templateTask('Pack', 10, 25)]),
+      templateMilestone('Moving day', 30, [templateTask('Update your address', 1, 28), templateTask('Unpack the essentials', 3, 30)])
+    ]
+  }),
+  builtIn('other-simple', {
+    name: 'Simple project',
+    description: 'A plain start, middle and end',
+    category: 'other',
+    deadlineOffsetDays: null,
+    milestones: [
+      templateMilestone('Plan', null, [templateTask('Define the goal'), templateTask('List the steps')]),
+      templateMilestone('Do', null, [templateTask('Work through the steps')]),
+      templateMilestone('Review', null, [templateTask('Check the result')])
+    ]
+  }),
+  builtIn('other-event', {
+    name: 'Event',
+    description: 'Organize an event',
+    category: 'other',
+    deadlineOffsetDays: 30,
+    milestones: [
+      templateMilestone('Planning', 10, [templateTask('Pick a date and venue', 2, 5), templateTask('Send invitations', 1, 10)]),
+      templateMilestone('Preparation', 28, [templateTask('Arrange food and supplies', 3, 25), templateTask('Confirm attendees', 1, 28)]),
+      templateMilestone('Event day', 30, [templateTask('Set up', 3, 30), templateTask('Follow up', 1, 30)])
+    ]
+  })
+];
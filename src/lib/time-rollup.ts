@@ -0,0 +1,65 @@
+import { getActiveDuration } from '@/lib/session-time';
+
+interface RollupSession {
+  milestoneId: string;
+  taskId: string;
+  startTime: Date;
+  endTime?: Date;
+  segments?: { type: 'active' | 'paused'; startTime: Date; endTime?: Date }[];
+}
+
+interface RollupProject {
+  _id: unknown;
+  milestones: {
+    _id: unknown;
+    tasks: { _id: unknown }[];
+  }[];
+}
+
+export interface TimeRollup {
+  projectId: string;
+  total: number;
+  // Time logged against tasks that no longer exist in the project
+  unassigned: number;
+  milestones: Record<string, {
+    total: number;
+    tasks: Record<string, number>;
+  }>;
+}
+
+/**
+ * Total tracked seconds per task, milestone and project. Paused time is
+ * left out and open sessions count up to now.
+ */
+export function buildTimeRollup(project: RollupProject, sessions: RollupSession[]): TimeRollup {
+  const rollup: TimeRollup = {
+    projectId: String(project._id),
+    total: 0,
+    unassigned: 0,
+    milestones: {}
+  };
+
+  for (const milestone of project.milestones) {
+    const tasks: Record<string, number> = {};
+    for (const task of milestone.tasks) {
+      tasks[String(task._id)] = 0;
+    }
+    rollup.milestones[String(milestone._id)] = { total: 0, tasks };
+  }
+
+  for (const session of sessions) {
+    const seconds = getActiveDuration(session);
+    const milestone = rollup.milestones[session.milestoneId];
+
+    rollup.total += seconds;
+
+    if (milestone && session.taskId in milestone.tasks) {
+      milestone.total += seconds;
+      milestone.tasks[session.taskId] += seconds;
+    } else {
+      rollup.unassigned += seconds;
+    }
+  }
+
+  return rollup;
+}
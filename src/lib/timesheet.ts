@@ -0,0 +1,123 @@
+import { getActiveDuration } from '@/lib/session-time';
+import { formatLocal, localDay } from '@/lib/dates';
+
+export type SubtotalPeriod = 'daily' | 'weekly';
+
+interface TimesheetProject {
+  _id: unknown;
+  name: string;
+  milestones: {
+    _id: unknown;
+    name: string;
+    tasks: { _id: unknown; name: string }[];
+  }[];
+}
+
+interface TimesheetSession {
+  projectId: unknown;
+  milestoneId: string;
+  taskId: string;
+  startTime: Date;
+  endTime?: Date | null;
+  segments?: { type: 'active' | 'paused'; startTime: Date; endTime?: Date | null }[];
+  duration?: number | null;
+  note: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const HEADER = ['Project', 'Milestone', 'Task', 'Start', 'End', 'Duration (hours)', 'Note'];
+
+// Monday of the week containing a "YYYY-MM-DD" day
+function weekStart(day: string) {
+  const date = new Date(`${day}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+const toHours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+// Quote a CSV field when needed. Fields that spreadsheets would read as a
+// formula are prefixed with an apostrophe.
+function csvField(value: string) {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+const csvRow = (fields: string[]) => fields.map(csvField).join(',');
+
+/**
+ * Build a CSV timesheet with a row per session, oldest first. Times are
+ * shown in the given time zone, and a session counts towards the day it
+ * started on. Subtotal rows follow each day or week when requested, with
+ * a grand total at the end.
+ */
+export function buildTimesheetCsv(
+  sessions: TimesheetSession[],
+  projects: TimesheetProject[],
+  timeZone: string,
+  subtotals: SubtotalPeriod[] = []
+) {
+  const projectsById = new Map(projects.map(project => [String(project._id), project]));
+  const sorted = [...sessions].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  const rows = [csvRow(HEADER)];
+  const totals = { daily: 0, weekly: 0, all: 0 };
+  let currentDay: string | null = null;
+  let currentWeek: string | null = null;
+
+  const closeDay = () => {
+    if (currentDay && subtotals.includes('daily')) {
+      rows.push(csvRow(['Daily subtotal', '', '', currentDay, '', toHours(totals.daily), '']));
+    }
+    totals.daily = 0;
+  };
+  const closeWeek = () => {
+    if (currentWeek && subtotals.includes('weekly')) {
+      rows.push(csvRow(['Weekly subtotal', '', '', `Week of ${currentWeek}`, '', toHours(totals.weekly), '']));
+    }
+    totals.weekly = 0;
+  };
+
+  for (const session of sorted) {
+    const day = localDay(new Date(session.startTime), timeZone);
+    const week = weekStart(day);
+
+    if (day !== currentDay) {
+      closeDay();
+      if (week !== currentWeek) {
+        closeWeek();
+        currentWeek = week;
+      }
+      currentDay = day;
+    }
+
+    const project = projectsById.get(String(session.projectId));
+    const milestone = project?.milestones.find(m => String(m._id) === session.milestoneId);
+    const task = milestone?.tasks.find(t => String(t._id) === session.taskId);
+    const duration = session.duration ?? getActiveDuration(session);
+
+    totals.daily += duration;
+    totals.weekly += duration;
+    totals.all += duration;
+
+    rows.push(csvRow([
+      project?.name || 'Deleted project',
+      milestone?.name || 'Deleted milestone',
+      task?.name || 'Deleted task',
+      formatLocal(new Date(session.startTime), timeZone),
+      session.endTime ? formatLocal(new Date(session.endTime), timeZone) : '',
+      toHours(duration),
+      session.note
+    ]));
+  }
+
+  closeDay();
+  closeWeek();
+
+  if (subtotals.length > 0) {
+    rows.push(csvRow(['Total', '', '', '', '', toHours(totals.all), '']));
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
@@ -1,23 +1,62 @@
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import type { Recurrence } from '@/lib/recurrence';
+
+export type Priority = 'low' | 'medium' | 'high';
+
+// Checklist Item Interface
+interface ChecklistItem {
+  text: string;
+  done: boolean;
+}
 
 // Task Interface
 interface Task {
   name: string;
   status: 'not_started' | 'in_progress' | 'completed';
   notes: string;
+  order: number;
+  estimateMinutes?: number | null;
+  // Relative size for weighted progress; takes precedence over the estimate
+  weight?: number | null;
+  // Tasks in the same project that must be completed first
+  dependsOn: Types.ObjectId[];
+  checklist: ChecklistItem[];
+  dueDate?: Date | null;
+  priority: Priority;
+  // Completing a recurring task adds the next instance to the milestone
+  recurrence?: Recurrence | null;
+  // Earlier completions of the recurring series, carried to each new instance
+  completions: {
+    taskId: Types.ObjectId;
+    completedAt: Date;
+    dueDate: Date | null;
+  }[];
   lastSession?: {
     timestamp: Date;
     note: string;
   };
+  // Every session note written for the task, oldest first; never edited
+  noteHistory: {
+    sessionId?: Types.ObjectId | null;
+    note: string;
+    createdAt: Date;
+  }[];
 }
 
 // Milestone Interface
 interface Milestone {
   name: string;
   status: 'not_started' | 'in_progress' | 'completed';
+  order: number;
+  estimateMinutes?: number | null;
+  dueDate?: Date | null;
+  priority: Priority;
   tasks: Task[];
 }
 
+// How project progress is derived from task statuses
+export type ProgressMode = 'count' | 'weighted' | 'milestone';
+
 // Project Interface
 export interface ProjectDocument extends Document {
   userId: Types.ObjectId;
@@ -29,13 +68,60 @@ export interface ProjectDocument extends Document {
   createdAt: Date;
   updatedAt: Date;
   deadline?: Date;
+  archivedAt?: Date | null;
+  importedFrom?: Types.ObjectId | null;
   milestones: Milestone[];
   settings: {
     autoStart: boolean;
     notifications: boolean;
+    progressMode: ProgressMode;
+    // Overrides of the user's focus interval defaults; null means use the default
+    focusMode: {
+      workMinutes: number | null;
+      breakMinutes: number | null;
+    };
   };
 }
 
+// Checklist Item Schema
+const ChecklistItemSchema = new Schema<ChecklistItem>({
+  text: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  done: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true
+});
+
+// Recurrence Schema, shared with templates
+export const RecurrenceSchema = new Schema<Recurrence>({
+  frequency: {
+    type: String,
+    enum: ['daily', 'weekly', 'monthly'],
+    required: true
+  },
+  interval: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  weekdays: {
+    type: [Number],
+    default: []
+  },
+  dayOfMonth: {
+    type: Number,
+    min: 1,
+    max: 31,
+    default: null
+  }
+}, { _id: false });
+
 // Task Schema
 const TaskSchema = new Schema<Task>({
   name: {
@@ -52,6 +138,46 @@ const TaskSchema = new Schema<Task>({
     type: String,
     default: ''
   },
+  // Position within the milestone, kept in step with the array index
+  order: {
+    type: Number,
+    default: 0
+  },
+  estimateMinutes: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  weight: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  dependsOn: {
+    type: [Schema.Types.ObjectId],
+    default: []
+  },
+  // Ordered by array position
+  checklist: [ChecklistItemSchema],
+  dueDate: {
+    type: Date,
+    default: null
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  recurrence: {
+    type: RecurrenceSchema,
+    default: null
+  },
+  completions: [{
+    _id: false,
+    taskId: Schema.Types.ObjectId,
+    completedAt: Date,
+    dueDate: Date
+  }],
   lastSession: {
     timestamp: {
       type: Date,
@@ -61,7 +187,24 @@ const TaskSchema = new Schema<Task>({
       type: String,
       default: ''
     }
-  }
+  },
+  // Markdown session notes
+  noteHistory: [{
+    _id: false,
+    sessionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Session',
+      default: null
+    },
+    note: {
+      type: String,
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }]
 }, {
   timestamps: true
 });
@@ -78,6 +221,26 @@ const MilestoneSchema = new Schema<Milestone>({
     enum: ['not_started', 'in_progress', 'completed'],
     default: 'not_started'
   },
+  // Position within the project, kept in step with the array index
+  order: {
+    type: Number,
+    default: 0
+  },
+  // Explicit milestone estimate; when unset the task estimates are summed
+  estimateMinutes: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  dueDate: {
+    type: Date,
+    default: null
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
   tasks: [TaskSchema]
 }, {
   timestamps: true
@@ -120,6 +283,16 @@ const ProjectSchema = new Schema<ProjectDocument>({
     type: Date,
     default: null
   },
+  // Set while the project is archived
+  archivedAt: {
+    type: Date,
+    default: null
+  },
+  // ID the project was first exported under, for projects created by an import
+  importedFrom: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
   milestones: [MilestoneSchema],
   settings: {
     autoStart: {
@@ -129,6 +302,25 @@ const ProjectSchema = new Schema<ProjectDocument>({
     notifications: {
       type: Boolean,
       default: true
+    },
+    progressMode: {
+      type: String,
+      enum: ['count', 'weighted', 'milestone'],
+      default: 'count'
+    },
+    focusMode: {
+      workMinutes: {
+        type: Number,
+        min: 1,
+        max: 240,
+        default: null
+      },
+      breakMinutes: {
+        type: Number,
+        min: 1,
+        max: 120,
+        default: null
+      }
     }
   }
 }, {
@@ -139,28 +331,116 @@ const ProjectSchema = new Schema<ProjectDocument>({
 ProjectSchema.index({ userId: 1, status: 1 });
 ProjectSchema.index({ userId: 1, category: 1 });
 ProjectSchema.index({ userId: 1, deadline: 1 });
+ProjectSchema.index({ userId: 1, 'milestones.dueDate': 1 });
+ProjectSchema.index({ userId: 1, 'milestones.tasks.dueDate': 1 });
+
+// Full-text search, with names ranked above longer text
+ProjectSchema.index(
+  {
+    name: 'text',
+    description: 'text',
+    'milestones.name': 'text',
+    'milestones.tasks.name': 'text',
+    'milestones.tasks.notes': 'text',
+    'milestones.tasks.noteHistory.note': 'text'
+  },
+  {
+    name: 'project_search',
+    weights: {
+      name: 10,
+      'milestones.name': 5,
+      'milestones.tasks.name': 5,
+      description: 2,
+      'milestones.tasks.notes': 1,
+      'milestones.tasks.noteHistory.note': 1
+    }
+  }
+);
+
+// Share of a task's weight counted while it is in progress
+const IN_PROGRESS_CREDIT = 0.5;
+
+// Completion credit of a single task, between 0 and 1. Open tasks with a
+// checklist are credited for the share of items checked off.
+function taskCredit(task: Task, inProgressCredit = IN_PROGRESS_CREDIT) {
+  if (task.status === 'completed') return 1;
+  if (task.checklist?.length > 0) {
+    return task.checklist.filter(item => item.done).length / task.checklist.length;
+  }
+  if (task.status === 'in_progress') return inProgressCredit;
+  return 0;
+}
+
+// Fraction of the given tasks that is done, each task weighted by weightOf
+function weightedCompletion(tasks: Task[], weightOf: (task: Task) => number) {
+  const totalWeight = tasks.reduce((acc, task) => acc + weightOf(task), 0);
+  if (totalWeight === 0) return 0;
+
+  return tasks.reduce((acc, task) => acc + weightOf(task) * taskCredit(task), 0) / totalWeight;
+}
 
-// Function to calculate project progress based on completed tasks
+// Function to calculate project progress according to the project's progress mode
 function calculateProgress(project: ProjectDocument) {
-  const totalTasks = project.milestones.reduce((acc, milestone) => 
-    acc + milestone.tasks.length, 0);
+  const tasks = project.milestones.flatMap(milestone => milestone.tasks);
   
-  if (totalTasks === 0) {
+  if (tasks.length === 0) {
     project.progress = 0;
     return;
   }
+
+  let completion: number;
+
+  switch (project.settings?.progressMode) {
+    case 'weighted': {
+      // Tasks without a weight or estimate count as an average sized task
+      const sized = tasks
+        .map(task => task.weight ?? task.estimateMinutes)
+        .filter((size): size is number => size != null);
+      const defaultSize = sized.length > 0
+        ? sized.reduce((acc, size) => acc + size, 0) / sized.length
+        : 1;
+
+      completion = weightedCompletion(tasks, task => task.weight ?? task.estimateMinutes ?? defaultSize);
+      break;
+    }
+    case 'milestone': {
+      // Every milestone counts equally, whatever its number of tasks
+      const milestones = project.milestones.filter(milestone => milestone.tasks.length > 0);
+      completion = milestones.reduce((acc, milestone) =>
+        acc + weightedCompletion(milestone.tasks, () => 1), 0) / milestones.length;
+      break;
+    }
+    default: {
+      // In-progress tasks earn no credit here beyond their checklist
+      const completedTasks = tasks.reduce((acc, task) => acc + taskCredit(task, 0), 0);
+      completion = completedTasks / tasks.length;
+    }
+  }
   
-  const completedTasks = project.milestones.reduce((acc, milestone) => 
-    acc + milestone.tasks.filter(task => task.status === 'completed').length, 0);
-  
-  project.progress = Math.round((completedTasks / totalTasks) * 100);
+  project.progress = Math.round(completion * 100);
+}
+
+// Number milestones and tasks by their position in the arrays
+function assignOrder(project: ProjectDocument) {
+  project.milestones.forEach((milestone, milestoneIndex) => {
+    if (milestone.order !== milestoneIndex) milestone.order = milestoneIndex;
+    milestone.tasks.forEach((task, taskIndex) => {
+      if (task.order !== taskIndex) task.order = taskIndex;
+    });
+  });
 }
 
 // Pre-save middleware to calculate progress
 ProjectSchema.pre('save', function(next) {
   if (this.isModified('milestones')) {
+    assignOrder(this);
+  }
+  if (this.isModified('milestones') || this.isModified('settings.progressMode')) {
     calculateProgress(this);
   }
+  if (this.isModified('status')) {
+    this.archivedAt = this.status === 'archived' ? (this.archivedAt || new Date()) : null;
+  }
   next();
 });
 
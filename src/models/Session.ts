@@ -1,5 +1,41 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface SessionSegment {
+  type: 'active' | 'paused';
+  startTime: Date;
+  endTime?: Date;
+}
+
+export type SessionActivityAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'note_added'
+  | 'task_status_changed'
+  | 'interval_completed'
+  | 'end';
+
+export interface SessionActivity {
+  timestamp: Date;
+  action: SessionActivityAction;
+  metadata: Record<string, unknown>;
+}
+
+export interface SessionSnapshot {
+  location: 'local' | 'cloud';
+  capturedAt: Date;
+  apps: {
+    name: string;
+    path?: string;
+  }[];
+  browserTabs: {
+    url: string;
+    title: string;
+  }[];
+  workingDirectory: string;
+  context: string;
+}
+
 export interface SessionDocument extends Document {
   userId: mongoose.Types.ObjectId;
   projectId: mongoose.Types.ObjectId;
@@ -7,12 +43,109 @@ export interface SessionDocument extends Document {
   taskId: string;
   startTime: Date;
   endTime?: Date;
-  status: 'active' | 'completed';
+  status: 'active' | 'paused' | 'completed';
+  segments: SessionSegment[];
+  duration?: number;
   note: string;
+  snapshot?: SessionSnapshot;
+  activities: SessionActivity[];
+  lastHeartbeatAt?: Date;
+  focus?: {
+    workMinutes: number;
+    breakMinutes: number;
+    completedIntervals: number;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Active and paused intervals making up a session
+const SegmentSchema = new Schema<SessionSegment>({
+  type: {
+    type: String,
+    enum: ['active', 'paused'],
+    required: true
+  },
+  startTime: {
+    type: Date,
+    required: true
+  },
+  endTime: {
+    type: Date
+  }
+}, {
+  _id: false
+});
+
+// Events recorded over the course of a session
+const ActivitySchema = new Schema<SessionActivity>({
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  action: {
+    type: String,
+    enum: ['start', 'pause', 'resume', 'note_added', 'task_status_changed', 'interval_completed', 'end'],
+    required: true
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: {}
+  }
+}, {
+  _id: false,
+  minimize: false
+});
+
+// Environment captured when a session ends. With local storage only the
+// marker is kept here and the contents stay on the user's device.
+const SnapshotSchema = new Schema<SessionSnapshot>({
+  location: {
+    type: String,
+    enum: ['local', 'cloud'],
+    required: true
+  },
+  capturedAt: {
+    type: Date,
+    default: Date.now
+  },
+  apps: [{
+    _id: false,
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    path: {
+      type: String,
+      trim: true
+    }
+  }],
+  browserTabs: [{
+    _id: false,
+    url: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    title: {
+      type: String,
+      default: '',
+      trim: true
+    }
+  }],
+  workingDirectory: {
+    type: String,
+    default: ''
+  },
+  context: {
+    type: String,
+    default: ''
+  }
+}, {
+  _id: false
+});
+
 const SessionSchema = new Schema({
   userId: {
     type: Schema.Types.ObjectId,
@@ -41,12 +174,48 @@ const SessionSchema = new Schema({
   },
   status: {
     type: String,
-    enum: ['active', 'completed'],
+    enum: ['active', 'paused', 'completed'],
     default: 'active'
   },
+  segments: [SegmentSchema],
+  // Tracked time in seconds, excluding paused segments
+  duration: {
+    type: Number,
+    min: 0
+  },
   note: {
     type: String,
     default: ''
+  },
+  snapshot: {
+    type: SnapshotSchema,
+    default: undefined
+  },
+  activities: [ActivitySchema],
+  // Last sign of activity from the client, used for idle detection
+  lastHeartbeatAt: {
+    type: Date
+  },
+  // Focus (pomodoro) mode; absent for regular sessions
+  focus: {
+    type: new Schema({
+      workMinutes: {
+        type: Number,
+        min: 1,
+        required: true
+      },
+      breakMinutes: {
+        type: Number,
+        min: 1,
+        required: true
+      },
+      completedIntervals: {
+        type: Number,
+        min: 0,
+        default: 0
+      }
+    }, { _id: false }),
+    default: undefined
   }
 }, {
   timestamps: true
@@ -56,6 +225,12 @@ const SessionSchema = new Schema({
 SessionSchema.index({ userId: 1, status: 1 });
 SessionSchema.index({ projectId: 1, status: 1 });
 SessionSchema.index({ userId: 1, projectId: 1 });
+SessionSchema.index({ projectId: 1, taskId: 1, endTime: -1 });
+// Notes added during a session are kept in its note_added activities
+SessionSchema.index(
+  { note: 'text', 'activities.metadata.note': 'text' },
+  { name: 'session_search' }
+);
 
 const Session = mongoose.models.Session || mongoose.model<SessionDocument>('Session', SessionSchema);
 
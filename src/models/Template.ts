@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { RecurrenceSchema, type Priority } from '@/models/Project';
+import type { Recurrence } from '@/lib/recurrence';
+
+// Due dates are stored as whole days after the project's start date
+export interface TemplateTask {
+  name: string;
+  estimateMinutes?: number | null;
+  weight?: number | null;
+  priority: Priority;
+  dueOffsetDays?: number | null;
+  checklist: string[];
+  recurrence?: Recurrence | null;
+}
+
+export interface TemplateMilestone {
+  name: string;
+  estimateMinutes?: number | null;
+  priority: Priority;
+  dueOffsetDays?: number | null;
+  tasks: TemplateTask[];
+}
+
+export interface TemplateDocument extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  description: string;
+  category: string;
+  deadlineOffsetDays?: number | null;
+  milestones: TemplateMilestone[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dueOffset = {
+  type: Number,
+  min: 0,
+  default: null
+};
+
+// Template Task Schema
+const TemplateTaskSchema = new Schema<TemplateTask>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  estimateMinutes: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  weight: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  dueOffsetDays: dueOffset,
+  checklist: {
+    type: [String],
+    default: []
+  },
+  recurrence: {
+    type: RecurrenceSchema,
+    default: null
+  }
+}, { _id: false });
+
+// Template Milestone Schema
+const TemplateMilestoneSchema = new Schema<TemplateMilestone>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  estimateMinutes: {
+    type: Number,
+    min: 0,
+    default: null
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  dueOffsetDays: dueOffset,
+  tasks: [TemplateTaskSchema]
+}, { _id: false });
+
+// Template Schema
+const TemplateSchema = new Schema<TemplateDocument>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  category: {
+    type: String,
+    enum: ['design', 'development', 'writing', 'marketing', 'business', 'education', 'personal', 'home', 'other'],
+    default: 'other'
+  },
+  deadlineOffsetDays: dueOffset,
+  milestones: [TemplateMilestoneSchema]
+}, {
+  timestamps: true
+});
+
+TemplateSchema.index({ userId: 1, category: 1 });
+
+export default mongoose.models.Template || mongoose.model<TemplateDocument>('Template', TemplateSchema);
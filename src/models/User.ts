@@ -11,6 +11,8 @@ export interface UserDocument extends Document {
   createdAt: Date;
   updatedAt: Date;
   lastLogin: Date;
+  // Secret for the calendar feed URL; null while the feed is disabled
+  calendarToken?: string | null;
   settings: {
     theme: 'light' | 'dark' | 'system';
     notifications: boolean;
@@ -19,7 +21,21 @@ export interface UserDocument extends Document {
       captureApps: boolean;
       captureBrowsers: boolean;
       saveLocation: 'local' | 'cloud' | 'none';
-    }
+    };
+    focusMode: {
+      workMinutes: number;
+      breakMinutes: number;
+    };
+    idleDetection: {
+      enabled: boolean;
+      thresholdMinutes: number;
+      action: 'pause' | 'end';
+    };
+    // Completed projects left untouched for this many days are archived
+    autoArchive: {
+      enabled: boolean;
+      days: number;
+    };
   };
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -89,6 +105,51 @@ const UserSchema = new Schema<UserDocument>({
         enum: ['local', 'cloud', 'none'],
         default: 'local'
       }
+    },
+    focusMode: {
+      workMinutes: {
+        type: Number,
+        min: 1,
+        max: 240,
+        default: 25
+      },
+      breakMinutes: {
+        type: Number,
+        min: 1,
+        max: 120,
+        default: 5
+      }
+    },
+    // Opt-in, so existing users' session timing does not change
+    idleDetection: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      thresholdMinutes: {
+        type: Number,
+        min: 1,
+        max: 24 * 60,
+        default: 30
+      },
+      action: {
+        type: String,
+        enum: ['pause', 'end'],
+        default: 'pause'
+      }
+    },
+    autoArchive: {
+      // Opt-in, so existing users' projects are not archived without warning
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      days: {
+        type: Number,
+        min: 1,
+        max: 365,
+        default: 30
+      }
     }
   },
   createdAt: {
@@ -98,6 +159,10 @@ const UserSchema = new Schema<UserDocument>({
   lastLogin: {
     type: Date,
     default: Date.now
+  },
+  calendarToken: {
+    type: String,
+    default: null
   }
 }, {
   timestamps: true
@@ -106,6 +171,12 @@ const UserSchema = new Schema<UserDocument>({
 // Compound index for OAuth provider lookup
 UserSchema.index({ authProvider: 1, authId: 1 }, { unique: true });
 
+// Calendar feed lookup; users without a feed are left out of the index
+UserSchema.index(
+  { calendarToken: 1 },
+  { unique: true, partialFilterExpression: { calendarToken: { $type: 'string' } } }
+);
+
 // Pre-save hook to hash passwords
 UserSchema.pre('save', async function(next) {
   if (this.isModified('password') && this.password) {